@@ -1,3 +1,19 @@
 #!/usr/bin/env node
 
-require("../dist/index.js");
+const [command] = process.argv.slice(2);
+
+// the language server is started with options like --stdio or --node-ipc,
+// anything else is a command of the cli
+if ((command && !command.startsWith("--")) || command === "--help") {
+  require("../dist/cli.js")
+    .runCli(process.argv.slice(2))
+    .then((exitCode) => {
+      process.exitCode = exitCode;
+    })
+    .catch((error) => {
+      process.stderr.write(`${(error && error.message) || error}\n`);
+      process.exitCode = 2;
+    });
+} else {
+  require("../dist/index.js");
+}
@@ -1,5 +1,10 @@
-import { Range, Color, Location, Position } from 'vscode-languageserver/node';
-import * as fs from 'fs';
+import {
+  Range,
+  Color,
+  Location,
+  Position,
+  CancellationToken,
+} from 'vscode-languageserver/node';
 import fastGlob from 'fast-glob';
 import * as culori from 'culori';
 import axios from 'axios';
@@ -8,10 +13,25 @@ import { pathToFileURL } from 'url';
 import path from 'path';
 import postcssSCSS from 'postcss-scss';
 import postcssLESS from 'postcss-less';
+import { TextDocument } from 'vscode-languageserver-textdocument';
 import CacheManager from './CacheManager';
+import IndexCache from './IndexCache';
+import type IndexWorkerPool from './IndexWorkerPool';
 import isColor from './utils/isColor';
 import { culoriColorToVscodeColor } from './utils/culoriColorToVscodeColor';
 import { resolveVariableValue } from './utils/resolveVariableValue';
+import { findVariableUsages } from './utils/findVariableUsages';
+import { parseSassMap } from './utils/parseSassMap';
+import {
+  getTokenVariableName,
+  parseDesignTokens,
+  resolveTokenAliases,
+} from './utils/parseDesignTokens';
+import { escapeRegExp } from './utils/escapeRegExp';
+import { extractStyleBlocks } from './utils/extractStyleBlocks';
+import { extractInlineStyles } from './utils/extractInlineStyles';
+import { getImportSpecifiers, resolveImport } from './utils/resolveImport';
+import { readFileContent } from './utils/readFileContent';
 
 export type CSSSymbol = {
   name: string
@@ -22,6 +42,31 @@ export type CSSVariable = {
   symbol: CSSSymbol
   definition: Location
   color?: Color
+  /** selector of the rule the variable is declared in, e.g. `:root` or `.dark` */
+  selector?: string
+  /** enclosing at-rules, outermost first, e.g. `@media (prefers-color-scheme: dark)` */
+  atRules?: string[]
+  /** the value comes from the `initial-value` of an `@property` rule */
+  isInitialValue?: boolean
+}
+
+export type CSSPropertyRegistration = {
+  name: string
+  syntax: string
+  inherits: boolean
+  initialValue?: string
+  definition: Location
+}
+
+/**
+ * Sass `$variables` and Less `@variables`, each only visible to
+ * documents of the matching language
+ */
+export type PreprocessorSyntax = 'sass' | 'less'
+
+export type CSSVariableUsage = {
+  name: string
+  location: Location
 }
 
 export type CSSCustomMedia = {
@@ -30,6 +75,22 @@ export type CSSCustomMedia = {
   definition: Location
 }
 
+/**
+ * Everything indexed from a single file, stored by the index cache
+ */
+export type FileSnapshot = {
+  variables: CSSVariable[]
+  customMedia: CSSCustomMedia[]
+  properties: CSSPropertyRegistration[]
+  preprocessorVariables: Record<PreprocessorSyntax, CSSVariable[]>
+  usages: CSSVariableUsage[]
+  imports: string[]
+  /** hash of the content the snapshot was parsed from */
+  hash?: string
+  /** modification time of the file when that content was read from disk */
+  mtime?: number
+}
+
 export interface CSSVariablesSettings {
   lookupFiles: string[]
   blacklistFolders: string[]
@@ -38,6 +99,52 @@ export interface CSSVariablesSettings {
    * expose them for completion/hover/definition requests.
    */
   enableCustomMedia?: boolean
+  /**
+   * Selector (e.g. `.dark` or `[data-theme=dark]`) whose definitions are
+   * preferred when a variable is declared for several themes.
+   */
+  activeTheme?: string
+  /**
+   * Prefix and separator used to turn the path of design tokens from
+   * matched JSON files into custom property names, e.g. with the default
+   * `-` separator `color.brand.500` becomes `--color-brand-500`.
+   */
+  tokenPrefix?: string
+  tokenSeparator?: string
+  /**
+   * Which resolved values are shown as inlay hints after `var()` usages.
+   */
+  inlayHints?: 'off' | 'colors' | 'lengths' | 'all'
+  /**
+   * When enabled completion and diagnostics only consider the variables of
+   * the current file, the files it imports and the global stylesheets.
+   */
+  reachableVariablesOnly?: boolean
+  /**
+   * Glob patterns of stylesheets whose variables are visible from every
+   * file, e.g. `src/styles/root.css`.
+   */
+  globalStylesheets?: string[]
+  /**
+   * File the TypeScript declarations of the variable names are written to,
+   * relative to the workspace folder. Regenerated when a stylesheet
+   * changes, e.g. `src/css-variables.d.ts`.
+   */
+  typeDeclarationsFile?: string
+}
+
+export type CSSVariableManagerOptions = {
+  followImports?: boolean
+  workerPool?: IndexWorkerPool
+}
+
+export type IndexOptions = {
+  /** snapshots of the files indexed in a previous run */
+  indexCache?: IndexCache
+  /** stops the scan, e.g. when the settings change while indexing */
+  token?: CancellationToken
+  /** called after each indexed file with the number of indexed files */
+  onProgress?: (indexed: number, total: number) => void
 }
 
 // The global settings, used when the `workspace/configuration` request is not supported by the client.
@@ -60,175 +167,743 @@ export const defaultSettings: CSSVariablesSettings = {
     '**/tmp',
   ],
   enableCustomMedia: false,
+  activeTheme: '',
+  tokenPrefix: '',
+  tokenSeparator: '-',
+  inlayHints: 'off',
+  reachableVariablesOnly: false,
+  globalStylesheets: [],
+  typeDeclarationsFile: '',
 };
 
-const getAST = (filePath: string, content: string) => {
-  const fileExtension = path.extname(filePath);
+// files read and parsed at the same time while indexing a folder
+const INDEX_CONCURRENCY = 8;
 
-  if (fileExtension === '.less') {
+const getAST = (language: string, content: string) => {
+  if (language === 'less') {
     return postcssLESS.parse(content);
   }
   
-  if (fileExtension === '.scss') {
+  if (language === 'scss') {
     return postcssSCSS.parse(content);
   }
 
   return postcss.parse(content);
 };
 
+// files whose styles live in `<style>` blocks and style attributes
+const COMPONENT_EXTENSIONS = ['.vue', '.svelte', '.astro', '.html', '.htm'];
+
+// files whose styles live in style objects and CSS-in-JS template literals
+const SCRIPT_EXTENSIONS = ['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts'];
+
+// `lang` attributes of style blocks that postcss can parse
+const STYLE_BLOCK_LANGUAGES = ['css', 'postcss', 'scss', 'less'];
+
+/**
+ * Parses the stylesheets of a file, a component file has one per `<style>`
+ * block, each parsed according to its `lang` attribute, and one for its
+ * inline styles
+ */
+const getStylesheets = (filePath: string, content: string) => {
+  const fileExtension = path.extname(filePath);
+  const isComponent = COMPONENT_EXTENSIONS.includes(fileExtension);
+
+  if (!isComponent && !SCRIPT_EXTENSIONS.includes(fileExtension)) {
+    const language = fileExtension.slice(1);
+    return [{ ast: getAST(language, content), content, language }];
+  }
+
+  const blocks = isComponent
+    ? extractStyleBlocks(content).filter((block) =>
+      STYLE_BLOCK_LANGUAGES.includes(block.lang)
+    )
+    : [];
+  blocks.push({ lang: 'css', content: extractInlineStyles(content) });
+
+  // a block that cannot be parsed should not hide the other ones
+  return blocks.flatMap((block) => {
+    try {
+      return [{
+        ast: getAST(block.lang, block.content),
+        content: block.content,
+        language: block.lang,
+      }];
+    } catch (error) {
+      console.error(`Error parsing styles of ${filePath}:`, error);
+      return [];
+    }
+  });
+};
+
+// at-rules that load other stylesheets
+const IMPORT_AT_RULES = ['import', 'use', 'forward'];
+
+// at-rules that change when a declaration applies
+const CONTEXT_AT_RULES = ['media', 'supports', 'layer', 'container'];
+
+/**
+ * Collects the selector and the enclosing at-rules of a declaration,
+ * nested rules are combined into a single selector
+ */
+const getDeclarationContext = (node: postcss.Node) => {
+  let selector: string | undefined;
+  const atRules: string[] = [];
+
+  let parent = node.parent;
+  while (parent && parent.type !== 'root') {
+    // the rules of inline styles have no selector
+    if (parent.type === 'rule' && (parent as postcss.Rule).selector) {
+      const ruleSelector = (parent as postcss.Rule).selector.replace(/\s+/g, ' ');
+
+      if (!selector) {
+        selector = ruleSelector;
+      } else if (selector.includes('&')) {
+        selector = selector.replace(/&/g, ruleSelector);
+      } else {
+        selector = `${ruleSelector} ${selector}`;
+      }
+    } else if (parent.type === 'atrule') {
+      const atRule = parent as postcss.AtRule;
+
+      if (CONTEXT_AT_RULES.includes(atRule.name)) {
+        atRules.unshift(`@${atRule.name} ${atRule.params}`.trim());
+      }
+    }
+
+    parent = parent.parent;
+  }
+
+  return { selector, atRules };
+};
+
+const getPreprocessorSyntax = (language: string): PreprocessorSyntax | undefined => {
+  if (language === 'scss') {
+    return 'sass';
+  }
+
+  if (language === 'less') {
+    return 'less';
+  }
+
+  return undefined;
+};
+
+const parseColor = (value: string) => {
+  try {
+    const culoriColor = culori.parse(value);
+    return culoriColor ? culoriColorToVscodeColor(culoriColor) : undefined;
+  } catch {
+    // culori throws on some values that are not colors
+    return undefined;
+  }
+};
+
+const PREPROCESSOR_REFERENCE = /^[$@][\w-]+$/;
+
+/**
+ * Follows a value that is a single reference to another Sass or Less
+ * variable, up to 5 levels deep like `resolveVariableValue`
+ */
+const resolvePreprocessorValue = (value: string, variables: Map<string, CSSVariable>) => {
+  let resolved = value;
+
+  for (let depth = 0; depth < 5 && PREPROCESSOR_REFERENCE.test(resolved); depth++) {
+    const referenced = variables.get(resolved);
+    if (!referenced) {
+      break;
+    }
+    resolved = referenced.symbol.value;
+  }
+
+  return resolved;
+};
+
+const ROOT_SELECTORS = [':root', 'html', ':host'];
+
+/**
+ * Whether a selector applies the theme to the element it matches, e.g.
+ * `.dark`, `:root.dark` or `[data-theme=dark]`, rather than to elements
+ * inside the themed one like `.dark .card`
+ */
+const isThemeSelector = (selector: string, themePattern: RegExp) => {
+  // combinators inside attribute values and pseudo-class arguments do not count
+  const compound = selector.trim().replace(/\[[^\]]*\]|\([^)]*\)/g, '');
+
+  return themePattern.test(selector) && !/[\s>+~]/.test(compound);
+};
+
+/**
+ * Picks the definition used for resolution: the one declared under the
+ * active theme selector, otherwise the unconditional `:root` one,
+ * otherwise the last one parsed. The `initial-value` of an `@property`
+ * rule is only used when the variable is not declared at all.
+ */
+const pickDefinition = (allDefinitions: CSSVariable[], activeTheme?: string) => {
+  const declarations = allDefinitions.filter((definition) => !definition.isInitialValue);
+  const definitions = declarations.length > 0 ? declarations : allDefinitions;
+
+  if (activeTheme) {
+    const themePattern = new RegExp(`${escapeRegExp(activeTheme)}(?![\\w-])`);
+    const themed = definitions.filter((definition) =>
+      definition.selector
+        ?.split(',')
+        .some((selector) => isThemeSelector(selector, themePattern))
+    );
+
+    if (themed.length > 0) {
+      return themed[themed.length - 1];
+    }
+  }
+
+  const root = definitions.filter(
+    (definition) =>
+      (!definition.selector || ROOT_SELECTORS.includes(definition.selector)) &&
+      !definition.atRules?.length
+  );
+
+  if (root.length > 0) {
+    return root[root.length - 1];
+  }
+
+  return definitions[definitions.length - 1];
+};
+
 export default class CSSVariableManager {
   private cacheManager = new CacheManager<CSSVariable>();
   private customMediaCache = new CacheManager<CSSCustomMedia>();
+  private propertyCache = new CacheManager<CSSPropertyRegistration>();
+  private preprocessorCaches: Record<PreprocessorSyntax, CacheManager<CSSVariable>> = {
+    sass: new CacheManager<CSSVariable>(),
+    less: new CacheManager<CSSVariable>(),
+  };
+  // var() usages per file, kept separately because a file usually
+  // references the same variable many times
+  private usageCache: Map<string, CSSVariableUsage[]> = new Map();
+  // number of usages per variable, computed again after usages change
+  private usageCounts?: Map<string, number>;
+  private indexedFiles: Set<string> = new Set();
+  // files imported by each file with @import, @use or @forward
+  private importGraph: Map<string, string[]> = new Map();
+  // hash of the content each file was parsed from, cached with its snapshot
+  private contentHashes: Map<string, string> = new Map();
+  // modification time of the files parsed from their content on disk
+  private modifiedTimes: Map<string, number> = new Map();
+  // stylesheets whose variables are visible from every file
+  private globalFiles: string[] = [];
+  // snapshots of the files indexed in a previous run
+  private indexCache?: IndexCache;
+  // files being indexed, indexing one of them again waits for the running
+  // parse instead of parsing it a second time concurrently
+  private pendingIndexes: Map<string, Promise<void>> = new Map();
+  // files indexed since `parseAndSyncVariables` started, lookup files that
+  // were already indexed as an import are not parsed again
+  private scannedFiles: Set<string> = new Set();
+
+  // parses files outside of the main thread when it is given
+  private workerPool?: IndexWorkerPool;
+  // whether imported files and urls are indexed, workers only parse the
+  // file they are given and leave its imports to the pool's owner
+  private followImports: boolean;
+
+  constructor({ followImports = true, workerPool }: CSSVariableManagerOptions = {}) {
+    this.followImports = followImports;
+    this.workerPool = workerPool;
+    this.setActiveTheme(defaultSettings.activeTheme);
+  }
 
   public parseCSSVariablesFromText = async ({
     content,
     filePath,
     settings,
+    mtime,
   }: {
     content: string
     filePath: string
     settings: CSSVariablesSettings
+    /** modification time of the file the content was read from */
+    mtime?: number
   }) => {
     try {
       // reset cache for this file
-      this.cacheManager.clearFileCache(filePath);
-      this.customMediaCache.clearFileCache(filePath);
+      this.clearFileCache(filePath);
+      this.indexedFiles.add(filePath);
+      this.contentHashes.set(filePath, IndexCache.getHash(content));
+      if (mtime !== undefined) {
+        this.modifiedTimes.set(filePath, mtime);
+      }
+
+      if (path.extname(filePath) === '.json') {
+        this.parseDesignTokensFromText(content, filePath, settings);
+        return;
+      }
+
+      this.parseUsagesFromText({ content, filePath });
 
-      const ast = getAST(filePath, content);
       const fileURI = pathToFileURL(filePath).toString();
 
-      const importUrls = [];
-      ast.walkAtRules((atRule) => {
-        if (atRule.name === 'import') {
-          // only support absolute url for now
-          const match = atRule.params.match(
-            /['"](?<protocol>http|https):\/\/(?<url>.*?)['"]/
-          );
+      for (const { ast, content: source, language } of getStylesheets(filePath, content)) {
+        await this.parseStylesheet(ast, source, language, fileURI, filePath, settings);
+      }
+    } catch (error) {
+      console.error(`Error parsing file ${filePath}:`, error);
+    }
+  };
 
-          if (match) {
-            const url = `${match.groups.protocol}://${match.groups.url}`;
+  /**
+   * Indexes the declarations, registrations and at-rules of a parsed stylesheet
+   */
+  private async parseStylesheet(
+    ast: ReturnType<typeof getAST>,
+    content: string,
+    language: string,
+    fileURI: string,
+    filePath: string,
+    settings: CSSVariablesSettings
+  ) {
+    const importUrls: string[] = [];
+    const importPaths: string[] = [];
+    ast.walkAtRules((atRule) => {
+      if (!IMPORT_AT_RULES.includes(atRule.name)) {
+        return;
+      }
 
-            importUrls.push(url);
-          }
+      getImportSpecifiers(atRule.params).forEach((specifier) => {
+        if (/^https?:\/\//.test(specifier)) {
+          importUrls.push(specifier);
+          return;
+        }
+
+        // files fetched from a url have no local imports
+        const importPath = path.isAbsolute(filePath) && resolveImport(specifier, filePath);
+        if (importPath) {
+          importPaths.push(importPath);
         }
       });
+    });
 
+    this.importGraph.set(filePath, [
+      ...(this.importGraph.get(filePath) || []),
+      ...importUrls,
+      ...importPaths,
+    ]);
+
+    if (this.followImports) {
       await Promise.all(
-        importUrls.map(async (url) => {
-          try {
-            const response = await axios(url, {
-              responseType: 'text',
-            });
-
-            const cssText = await response.data;
-
-            return this.parseCSSVariablesFromText({
-              content: cssText,
-              filePath: url,
-              settings,
-            });
-          } catch (err) {
-            console.error(err, `cannot fetch data from ${url}`);
-          }
-        })
+        importUrls.map((url) => this.parseRemoteStylesheet(url, settings))
       );
 
-      // parse variables declarations
-      ast.walkDecls((decl) => {
-        if (decl.prop.startsWith('--')) {
-          const variable: CSSVariable = {
-            symbol: {
-              name: decl.prop,
-              value: decl.value,
-            },
-            definition: {
-              uri: fileURI,
-              range: Range.create(
-                Position.create(
-                  decl.source.start.line - 1,
-                  decl.source.start.column - 1
-                ),
-                Position.create(
-                  decl.source.end.line - 1,
-                  decl.source.end.column - 1
-                )
+      // imported files are indexed even in blacklisted folders like
+      // node_modules, files that are already indexed are skipped, which also
+      // stops import cycles
+      for (const importPath of importPaths) {
+        if (!this.indexedFiles.has(importPath)) {
+          await this.indexFile(importPath, settings);
+        }
+      }
+    }
+
+    // parse variables declarations
+    ast.walkDecls((decl) => {
+      if (decl.prop.startsWith('--')) {
+        const variable: CSSVariable = {
+          symbol: {
+            name: decl.prop,
+            value: decl.value,
+          },
+          definition: {
+            uri: fileURI,
+            range: Range.create(
+              Position.create(
+                decl.source.start.line - 1,
+                decl.source.start.column - 1
               ),
-            },
-          };
-
-          let culoriColor: culori.Color | undefined;
-          try {
-            culoriColor = culori.parse(decl.value);
-          } catch (error) {
-            // If culori cannot parse the value, it's not a color
-            // This is expected for non-color values like font definitions
-          }
+              Position.create(
+                decl.source.end.line - 1,
+                decl.source.end.column - 1
+              )
+            ),
+          },
+          ...getDeclarationContext(decl),
+        };
 
-          if (culoriColor) {
-            variable.color = culoriColorToVscodeColor(culoriColor);
-          }
+        let culoriColor: culori.Color | undefined;
+        try {
+          culoriColor = culori.parse(decl.value);
+        } catch (error) {
+          // If culori cannot parse the value, it's not a color
+          // This is expected for non-color values like font definitions
+        }
 
-          // add to cache
-          this.cacheManager.set(filePath, decl.prop, variable);
+        if (culoriColor) {
+          variable.color = culoriColorToVscodeColor(culoriColor);
         }
+
+        // add to cache
+        this.cacheManager.set(filePath, decl.prop, variable);
+      }
+    });
+
+    // parse @property registrations
+    ast.walkAtRules('property', (atRule) => {
+      const name = atRule.params.trim();
+      if (!name.startsWith('--')) {
+        return;
+      }
+
+      const descriptors: Record<string, string> = {};
+      atRule.walkDecls((decl) => {
+        descriptors[decl.prop] = decl.value;
       });
 
-      // parse custom-media rules and cache them.
-      if (settings.enableCustomMedia) {
-        ast.walkAtRules((atRule) => {
-          if (atRule.name === 'custom-media') {
-            // params format: "--name <media-query>"
-            const match = atRule.params.match(/^(--[\w-]+)\s+(.*)$/);
-            if (match) {
-              const cm: CSSCustomMedia = {
-                name: match[1],
-                params: match[2],
-                definition: {
-                  uri: fileURI,
-                  range: Range.create(
-                    Position.create(
-                      atRule.source.start.line - 1,
-                      atRule.source.start.column - 1
-                    ),
-                    Position.create(
-                      atRule.source.end.line - 1,
-                      atRule.source.end.column - 1
-                    )
+      // the range of the name, so renaming it works like for declarations
+      const nameStart = Position.create(
+        atRule.source.start.line - 1,
+        atRule.source.start.column - 1 + `@${atRule.name}${atRule.raws.afterName}`.length
+      );
+      const definition = {
+        uri: fileURI,
+        range: Range.create(
+          nameStart,
+          Position.create(nameStart.line, nameStart.character + name.length)
+        ),
+      };
+
+      const registration: CSSPropertyRegistration = {
+        name,
+        syntax: (descriptors.syntax || '*').replace(/^['"]|['"]$/g, ''),
+        inherits: descriptors.inherits === 'true',
+        initialValue: descriptors['initial-value'],
+        definition,
+      };
+      this.propertyCache.set(filePath, name, registration);
+
+      // the initial value is used when the variable is not declared anywhere
+      if (registration.initialValue !== undefined) {
+        this.cacheManager.set(filePath, name, {
+          symbol: { name, value: registration.initialValue },
+          definition,
+          color: parseColor(registration.initialValue),
+          atRules: [],
+          isInitialValue: true,
+        });
+      }
+    });
+
+    const syntax = getPreprocessorSyntax(language);
+    if (syntax) {
+      this.parsePreprocessorVariables(ast, syntax, content, fileURI, filePath);
+    }
+
+    // parse custom-media rules and cache them.
+    if (settings.enableCustomMedia) {
+      ast.walkAtRules((atRule) => {
+        if (atRule.name === 'custom-media') {
+          // params format: "--name <media-query>"
+          const match = atRule.params.match(/^(--[\w-]+)\s+(.*)$/);
+          if (match) {
+            const cm: CSSCustomMedia = {
+              name: match[1],
+              params: match[2],
+              definition: {
+                uri: fileURI,
+                range: Range.create(
+                  Position.create(
+                    atRule.source.start.line - 1,
+                    atRule.source.start.column - 1
                   ),
-                },
-              };
-              this.customMediaCache.set(filePath, cm.name, cm);
-            }
+                  Position.create(
+                    atRule.source.end.line - 1,
+                    atRule.source.end.column - 1
+                  )
+                ),
+              },
+            };
+            this.customMediaCache.set(filePath, cm.name, cm);
           }
-        });
+        }
+      });
+    }
+  }
+
+  private async parseRemoteStylesheet(url: string, settings: CSSVariablesSettings) {
+    try {
+      const response = await axios(url, {
+        responseType: 'text',
+      });
+
+      const cssText = await response.data;
+
+      return this.parseCSSVariablesFromText({
+        content: cssText,
+        filePath: url,
+        settings,
+      });
+    } catch (err) {
+      console.error(err, `cannot fetch data from ${url}`);
+    }
+  }
+
+  /**
+   * Indexes a file from disk, or restores it from the index cache when it
+   * did not change since the last run. Files are parsed by the worker pool
+   * when there is one
+   */
+  private indexFile(filePath: string, settings: CSSVariablesSettings): Promise<void> {
+    const pending = this.pendingIndexes.get(filePath);
+    if (pending) {
+      return pending;
+    }
+
+    const indexing = this.readAndIndexFile(filePath, settings).finally(() => {
+      this.pendingIndexes.delete(filePath);
+    });
+    this.pendingIndexes.set(filePath, indexing);
+    this.scannedFiles.add(filePath);
+
+    return indexing;
+  }
+
+  private async readAndIndexFile(filePath: string, settings: CSSVariablesSettings) {
+    const snapshot =
+      this.indexCache?.getSnapshot(filePath) ||
+      (await this.parseFileInWorker(filePath, settings));
+
+    if (snapshot) {
+      this.restoreFileSnapshot(filePath, snapshot);
+
+      // imported files have snapshots of their own
+      for (const importPath of snapshot.imports) {
+        if (/^https?:\/\//.test(importPath)) {
+          await this.parseRemoteStylesheet(importPath, settings);
+        } else if (!this.indexedFiles.has(importPath)) {
+          await this.indexFile(importPath, settings);
+        }
       }
+      return;
+    }
+
+    const file = await readFileContent(filePath);
+    if (!file) {
+      console.error(`cannot read file ${filePath}`);
+      return;
+    }
+
+    await this.parseCSSVariablesFromText({
+      content: file.content,
+      filePath,
+      settings,
+      mtime: file.mtime,
+    });
+  }
+
+  private async parseFileInWorker(
+    filePath: string,
+    settings: CSSVariablesSettings
+  ): Promise<FileSnapshot | undefined> {
+    if (!this.workerPool) {
+      return undefined;
+    }
+
+    try {
+      return await this.workerPool.parse(filePath, settings);
     } catch (error) {
-      console.error(`Error parsing file ${filePath}:`, error);
+      // the file is parsed on the main thread instead
+      console.error(error, `cannot parse ${filePath} in a worker`);
+      return undefined;
     }
-  };
+  }
+
+  /**
+   * Indexes Sass `$variables`, including the entries of Sass maps as
+   * `$map.key`, and Less `@variables`
+   */
+  private parsePreprocessorVariables(
+    ast: ReturnType<typeof getAST>,
+    syntax: PreprocessorSyntax,
+    content: string,
+    fileURI: string,
+    filePath: string
+  ) {
+    const cache = this.preprocessorCaches[syntax];
+    const document = TextDocument.create(fileURI, syntax, 0, content);
+
+    const addVariable = (name: string, value: string, node: postcss.Node) => {
+      const variable: CSSVariable = {
+        symbol: { name, value },
+        definition: {
+          uri: fileURI,
+          range: Range.create(
+            Position.create(node.source.start.line - 1, node.source.start.column - 1),
+            Position.create(node.source.end.line - 1, node.source.end.column - 1)
+          ),
+        },
+        ...getDeclarationContext(node),
+      };
+
+      variable.color = parseColor(value);
+      cache.set(filePath, name, variable);
+    };
+
+    if (syntax === 'less') {
+      ast.walkAtRules((atRule: postcss.AtRule & { variable?: boolean; value?: string }) => {
+        if (atRule.variable && atRule.value !== undefined) {
+          addVariable(`@${atRule.name}`, atRule.value.trim(), atRule);
+        }
+      });
+      return;
+    }
+
+    ast.walkDecls((decl) => {
+      if (!decl.prop.startsWith('$')) {
+        return;
+      }
+
+      addVariable(decl.prop, decl.value, decl);
+
+      const valueOffset =
+        decl.source.start.offset + decl.prop.length + (decl.raws.between || '').length;
+      parseSassMap(decl.value).forEach((entry) => {
+        const start = document.positionAt(valueOffset + entry.offset);
+        const end = document.positionAt(valueOffset + entry.offset + entry.key.length);
+
+        cache.set(filePath, `${decl.prop}.${entry.key}`, {
+          symbol: { name: `${decl.prop}.${entry.key}`, value: entry.value },
+          definition: { uri: fileURI, range: Range.create(start, end) },
+          color: parseColor(entry.value),
+          ...getDeclarationContext(decl),
+        });
+      });
+    });
+  }
+
+  /**
+   * Indexes the tokens of a W3C Design Tokens or Style Dictionary JSON
+   * file as the custom properties generated from them
+   */
+  private parseDesignTokensFromText(
+    content: string,
+    filePath: string,
+    settings: CSSVariablesSettings
+  ) {
+    const fileURI = pathToFileURL(filePath).toString();
+    const document = TextDocument.create(fileURI, 'json', 0, content);
+    const { tokenPrefix, tokenSeparator } = settings;
+
+    parseDesignTokens(content).forEach((token) => {
+      const name = getTokenVariableName(token.path, tokenPrefix, tokenSeparator);
+      const value = resolveTokenAliases(token.value, tokenPrefix, tokenSeparator);
 
+      this.cacheManager.set(filePath, name, {
+        symbol: { name, value },
+        definition: {
+          uri: fileURI,
+          range: Range.create(
+            document.positionAt(token.offset),
+            document.positionAt(token.offset + token.length)
+          ),
+        },
+        color: parseColor(value),
+        atRules: [],
+      });
+    });
+  }
+
+  /**
+   * Indexes every `var()` usage of the given text, replacing the usages
+   * previously recorded for that file
+   */
+  public parseUsagesFromText({
+    content,
+    filePath,
+  }: {
+    content: string
+    filePath: string
+  }) {
+    const fileURI = pathToFileURL(filePath).toString();
+    const document = TextDocument.create(fileURI, '', 0, content);
+
+    const usages = findVariableUsages(content).map((usage) => ({
+      name: usage.name,
+      location: {
+        uri: fileURI,
+        range: Range.create(
+          document.positionAt(usage.start),
+          document.positionAt(usage.end)
+        ),
+      },
+    }));
+
+    this.usageCache.set(filePath, usages);
+    this.usageCounts = undefined;
+  }
+
+  /**
+   * Indexes the lookup files and global stylesheets of the given folders.
+   * A cancelled scan stops before the remaining files and leaves the
+   * variables of the files indexed so far
+   */
   public parseAndSyncVariables = async (
     workspaceFolders: string[],
-    settings: CSSVariablesSettings = defaultSettings
+    settings: CSSVariablesSettings = defaultSettings,
+    { indexCache, token, onProgress }: IndexOptions = {}
   ) => {
+    this.setActiveTheme(settings.activeTheme);
+    this.globalFiles = [];
+    this.indexCache = indexCache;
+    this.scannedFiles = new Set();
+
+    const folderFiles: { lookupFiles: string[], globalFiles: string[] }[] = [];
     for (const folderPath of workspaceFolders) {
-      await fastGlob(settings.lookupFiles, {
+      const lookupFiles = await fastGlob(settings.lookupFiles, {
         onlyFiles: true,
         cwd: folderPath,
         ignore: settings.blacklistFolders,
         absolute: true,
-      }).then((files) => {
-        return Promise.all(
-          files.map((filePath) => {
-            const content = fs.readFileSync(filePath, 'utf8');
-            return this.parseCSSVariablesFromText({
-              content,
-              filePath,
-              settings,
-            });
-          })
-        );
       });
+
+      // global stylesheets are indexed even when lookupFiles does not match them
+      const globalFiles = await fastGlob(settings.globalStylesheets || [], {
+        onlyFiles: true,
+        cwd: folderPath,
+        absolute: true,
+      });
+
+      folderFiles.push({ lookupFiles, globalFiles });
+      this.globalFiles.push(...globalFiles);
+    }
+
+    const total = folderFiles.reduce(
+      (count, { lookupFiles, globalFiles }) => count + lookupFiles.length + globalFiles.length,
+      0
+    );
+    let indexed = 0;
+    onProgress?.(indexed, total);
+
+    const indexFiles = async (files: string[]) => {
+      let next = 0;
+      const indexNext = async () => {
+        while (next < files.length && !token?.isCancellationRequested) {
+          const filePath = files[next++];
+
+          if (!this.scannedFiles.has(filePath)) {
+            await this.indexFile(filePath, settings);
+          }
+
+          indexed++;
+          onProgress?.(indexed, total);
+        }
+      };
+
+      await Promise.all(
+        Array.from({ length: Math.min(INDEX_CONCURRENCY, files.length) }, indexNext)
+      );
+    };
+
+    for (const { lookupFiles, globalFiles } of folderFiles) {
+      await indexFiles(lookupFiles);
+      // global stylesheets may be lookup files or imported by them
+      await indexFiles(globalFiles);
     }
 
     // After all files are parsed, resolve nested variable references
@@ -242,15 +917,18 @@ export default class CSSVariableManager {
   private resolveAllVariableReferences() {
     const allVariables = this.cacheManager.getAll();
 
-    // Iterate through all variables and resolve their values
-    allVariables.forEach((cssVariable, varName) => {
+    // Iterate through all definitions and resolve their values
+    this.getAllDefinitions().forEach((cssVariable) => {
       const originalValue = cssVariable.symbol.value;
 
       // Skip if already has a color (direct color value)
-      if (cssVariable.color) {
+      if (cssVariable.color && !originalValue.includes('var(')) {
         return;
       }
 
+      // the referenced definitions may have changed since the last run
+      cssVariable.color = undefined;
+
       // Try to resolve any var() references
       const resolvedValue = resolveVariableValue(originalValue, allVariables);
 
@@ -272,26 +950,313 @@ export default class CSSVariableManager {
         }
       }
     });
+    // preprocessor variables referencing another one, e.g. `$link: $brand`
+    Object.values(this.preprocessorCaches).forEach((cache) => {
+      const variables = cache.getAll();
+
+      cache.getAllEntries().forEach((definitions) => {
+        definitions.forEach((variable) => {
+          if (PREPROCESSOR_REFERENCE.test(variable.symbol.value)) {
+            variable.color = parseColor(
+              resolvePreprocessorValue(variable.symbol.value, variables)
+            );
+          }
+        });
+      });
+    });
   }
 
   public getAll() {
     return this.cacheManager.getAll();
   }
 
+  /**
+   * Returns the Sass or Less variables, keyed by their name including
+   * the `$` or `@` prefix
+   */
+  public getAllPreprocessorVariables(syntax: PreprocessorSyntax) {
+    return this.preprocessorCaches[syntax].getAll();
+  }
+
+  public getPreprocessorDefinitions(syntax: PreprocessorSyntax, name: string): CSSVariable[] {
+    return this.preprocessorCaches[syntax].getEntries(name);
+  }
+
+  /**
+   * Makes `getAll` and the variable resolution prefer the definitions
+   * declared under the given selector, falling back to `:root`
+   */
+  public setActiveTheme(activeTheme?: string) {
+    this.cacheManager.setPicker((definitions) =>
+      pickDefinition(definitions, activeTheme)
+    );
+  }
+
+  /**
+   * Returns every selector variables are declared under, sorted
+   */
+  public getSelectors(): string[] {
+    const selectors = new Set<string>();
+
+    this.cacheManager.getAllEntries().forEach((definitions) => {
+      definitions.forEach((definition) => {
+        if (definition.selector) {
+          selectors.add(definition.selector);
+        }
+      });
+    });
+
+    return Array.from(selectors).sort();
+  }
+
+  /**
+   * Returns every variable declared in the given file
+   */
+  public getFileVariables(filePath: string): CSSVariable[] {
+    return Array.from(this.cacheManager.getFileEntries(filePath).values()).flat();
+  }
+
+  /**
+   * Returns every declaration of every variable in the index
+   */
+  public getAllDefinitions(): CSSVariable[] {
+    return Array.from(this.cacheManager.getAllEntries().values()).flat();
+  }
+
+  /**
+   * Returns every declaration of the given variable, e.g. one per theme
+   */
+  public getDefinitions(name: string): CSSVariable[] {
+    return this.cacheManager.getEntries(name);
+  }
+
+  /**
+   * Returns the location of every `var(name)` usage in the indexed files
+   */
+  public getUsages(name: string): Location[] {
+    const locations: Location[] = [];
+
+    this.usageCache.forEach((usages) => {
+      usages.forEach((usage) => {
+        if (usage.name === name) {
+          locations.push(usage.location);
+        }
+      });
+    });
+
+    return locations;
+  }
+
+  /**
+   * Returns how often every variable is used through `var()`
+   */
+  public getUsageCounts(): Map<string, number> {
+    if (this.usageCounts) {
+      return this.usageCounts;
+    }
+
+    const counts: Map<string, number> = new Map();
+
+    this.usageCache.forEach((usages) => {
+      usages.forEach((usage) => {
+        counts.set(usage.name, (counts.get(usage.name) || 0) + 1);
+      });
+    });
+
+    this.usageCounts = counts;
+    return counts;
+  }
+
+  /**
+   * Returns every declaration whose variable is never used through `var()`
+   */
+  public getUnusedVariables(): CSSVariable[] {
+    const usageCounts = this.getUsageCounts();
+
+    return this.getAllDefinitions().filter(
+      (cssVariable) => !usageCounts.has(cssVariable.symbol.name)
+    );
+  }
+
+  /**
+   * Whether the file was indexed from the workspace, as opposed to only
+   * having its usages tracked while it is open in the editor
+   */
+  public isIndexedFile(filePath: string) {
+    return this.indexedFiles.has(filePath);
+  }
+
+  /**
+   * Returns the indexed files and the urls of the indexed remote stylesheets
+   */
+  public getIndexedFiles(): string[] {
+    return Array.from(this.indexedFiles);
+  }
+
+  public clearUsages(filePath: string) {
+    this.usageCache.delete(filePath);
+    this.usageCounts = undefined;
+  }
+
   public clearFileCache(filePath: string) {
     this.cacheManager.clearFileCache(filePath);
     this.customMediaCache.clearFileCache(filePath);
+    this.propertyCache.clearFileCache(filePath);
+    this.preprocessorCaches.sass.clearFileCache(filePath);
+    this.preprocessorCaches.less.clearFileCache(filePath);
+    this.usageCache.delete(filePath);
+    this.usageCounts = undefined;
+    this.indexedFiles.delete(filePath);
+    this.importGraph.delete(filePath);
+    this.contentHashes.delete(filePath);
+    this.modifiedTimes.delete(filePath);
   }
 
   public clearAllCache() {
     this.cacheManager.clearAllCache();
     this.customMediaCache.clearAllCache();
+    this.propertyCache.clearAllCache();
+    this.preprocessorCaches.sass.clearAllCache();
+    this.preprocessorCaches.less.clearAllCache();
+    this.usageCache.clear();
+    this.usageCounts = undefined;
+    this.indexedFiles.clear();
+    this.importGraph.clear();
+    this.contentHashes.clear();
+    this.modifiedTimes.clear();
+  }
+
+  /**
+   * Returns the files imported by the given file
+   */
+  public getImports(filePath: string): string[] {
+    return this.importGraph.get(filePath) || [];
+  }
+
+  /**
+   * Returns everything indexed from the given file
+   */
+  public getFileSnapshot(filePath: string): FileSnapshot {
+    const getEntries = <T>(cache: CacheManager<T>) =>
+      Array.from(cache.getFileEntries(filePath).values()).flat();
+
+    return {
+      variables: getEntries(this.cacheManager),
+      customMedia: getEntries(this.customMediaCache),
+      properties: getEntries(this.propertyCache),
+      preprocessorVariables: {
+        sass: getEntries(this.preprocessorCaches.sass),
+        less: getEntries(this.preprocessorCaches.less),
+      },
+      usages: this.usageCache.get(filePath) || [],
+      imports: this.getImports(filePath),
+      hash: this.contentHashes.get(filePath),
+      mtime: this.modifiedTimes.get(filePath),
+    };
+  }
+
+  /**
+   * Replaces everything indexed from the given file with a snapshot
+   * returned by `getFileSnapshot`
+   */
+  public restoreFileSnapshot(filePath: string, snapshot: FileSnapshot) {
+    this.clearFileCache(filePath);
+    this.indexedFiles.add(filePath);
+
+    snapshot.variables.forEach((variable) => {
+      this.cacheManager.set(filePath, variable.symbol.name, variable);
+    });
+    snapshot.customMedia.forEach((cm) => {
+      this.customMediaCache.set(filePath, cm.name, cm);
+    });
+    snapshot.properties.forEach((registration) => {
+      this.propertyCache.set(filePath, registration.name, registration);
+    });
+    Object.entries(snapshot.preprocessorVariables).forEach(([syntax, variables]) => {
+      variables.forEach((variable) => {
+        this.preprocessorCaches[syntax as PreprocessorSyntax].set(
+          filePath,
+          variable.symbol.name,
+          variable
+        );
+      });
+    });
+    this.usageCache.set(filePath, snapshot.usages);
+    this.usageCounts = undefined;
+    this.importGraph.set(filePath, snapshot.imports);
+    if (snapshot.hash) {
+      this.contentHashes.set(filePath, snapshot.hash);
+    }
+    if (snapshot.mtime !== undefined) {
+      this.modifiedTimes.set(filePath, snapshot.mtime);
+    }
+  }
+
+  /**
+   * Writes the snapshots of the indexed files to the index cache given to
+   * `parseAndSyncVariables`, except for the given files, e.g. documents
+   * with unsaved changes
+   */
+  public async saveIndexCache(excludedFiles: string[] = []) {
+    if (!this.indexCache) {
+      return;
+    }
+
+    const snapshots: Map<string, FileSnapshot> = new Map();
+    this.indexedFiles.forEach((filePath) => {
+      if (path.isAbsolute(filePath) && !excludedFiles.includes(filePath)) {
+        snapshots.set(filePath, this.getFileSnapshot(filePath));
+      }
+    });
+
+    await this.indexCache.save(snapshots);
+  }
+
+  /**
+   * Returns the given file, the files it imports directly or not and the
+   * global stylesheets with their imports
+   */
+  public getReachableFiles(filePath: string): Set<string> {
+    const files = new Set<string>();
+
+    const visit = (file: string) => {
+      if (files.has(file)) {
+        return;
+      }
+
+      files.add(file);
+      this.getImports(file).forEach(visit);
+    };
+
+    visit(filePath);
+    this.globalFiles.forEach(visit);
+
+    return files;
+  }
+
+  /**
+   * Like `getAll`, but only returns the variables the given file can see,
+   * see `getReachableFiles`
+   */
+  public getReachableVariables(filePath: string) {
+    return this.cacheManager.getAllFromFiles(this.getReachableFiles(filePath));
   }
 
   public getAllCustomMedia() {
     return this.customMediaCache.getAll();
   }
 
+  /**
+   * Returns the `@property` registration of the given variable
+   */
+  public getPropertyRegistration(name: string) {
+    return this.propertyCache.get(name);
+  }
+
+  public getFileCustomMedia(filePath: string): CSSCustomMedia[] {
+    return Array.from(this.customMediaCache.getFileEntries(filePath).values()).flat();
+  }
+
   public getCustomMedia(name: string) {
     return this.customMediaCache.get(name);
   }
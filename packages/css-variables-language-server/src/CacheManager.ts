@@ -1,50 +1,124 @@
 /**
  * Cache Manager
  * 
+ * Every file keeps all of its entries, a key can be declared
+ * several times (e.g. in `:root` and `.dark`) and in several files.
+ *
  * {
  * 	 src/styles/variables.css: {
+ * 			--red: [#355324, #ff0000],
  * 	 },
  *   all: {
- * 			--red: #355324,
+ * 			--red: #ff0000,
  *      --green: #664435
  * 	 }
  * }
  */
 
 export default class CacheManager<T> {
-	private cachedVariables: Map<string, Map<string, T>> = new Map();
+	private cachedVariables: Map<string, Map<string, T[]>> = new Map();
+	private allEntries: Map<string, T[]> = new Map();
+	// the entry exposed through `get`/`getAll` for every key
 	private allVariables: Map<string, T> = new Map();
-	
+	private pickEntry: (entries: T[]) => T = (entries) => entries[entries.length - 1];
+
 	public get(key: string, filePath?: string) {
 		if (filePath) {
-			return this.cachedVariables[filePath]?.get(key);
+			const entries = this.cachedVariables.get(filePath)?.get(key);
+			return entries?.[entries.length - 1];
 		}
 
-		return this.allVariables?.get(key);
+		return this.allVariables.get(key);
 	}
 
 	public getAll() {
 		return this.allVariables;
 	}
 
+	/**
+	 * Returns every entry of the given key across all files
+	 */
+	public getEntries(key: string): T[] {
+		return this.allEntries.get(key) || [];
+	}
+
+	public getAllEntries() {
+		return this.allEntries;
+	}
+
+	public getFileEntries(filePath: string): Map<string, T[]> {
+		return this.cachedVariables.get(filePath) || new Map();
+	}
+
+	/**
+	 * Like `getAll`, but only considers the entries of the given files
+	 */
+	public getAllFromFiles(filePaths: Iterable<string>): Map<string, T> {
+		const entries: Map<string, T[]> = new Map();
+		for (const filePath of filePaths) {
+			this.getFileEntries(filePath).forEach((fileEntries, key) => {
+				entries.set(key, [...(entries.get(key) || []), ...fileEntries]);
+			});
+		}
+
+		const variables: Map<string, T> = new Map();
+		entries.forEach((keyEntries, key) => {
+			variables.set(key, this.pickEntry(keyEntries));
+		});
+		return variables;
+	}
+
 	public set(filePath: string, key: string, value: T) {
-		if (!this.cachedVariables[filePath]) {
-			this.cachedVariables[filePath] = new Map();
+		if (!this.cachedVariables.has(filePath)) {
+			this.cachedVariables.set(filePath, new Map());
+		}
+
+		const fileEntries = this.cachedVariables.get(filePath);
+		if (!fileEntries.has(key)) {
+			fileEntries.set(key, []);
+		}
+		fileEntries.get(key).push(value);
+
+		if (!this.allEntries.has(key)) {
+			this.allEntries.set(key, []);
 		}
+		this.allEntries.get(key).push(value);
 
-		this.allVariables?.set(key, value);
-    this.cachedVariables[filePath].set(key, value);
+		this.allVariables.set(key, this.pickEntry(this.allEntries.get(key)));
+	}
+
+	/**
+	 * Changes how the entry exposed through `get`/`getAll` is chosen
+	 * when a key has several entries, the default is the last one set
+	 */
+	public setPicker(pickEntry: (entries: T[]) => T) {
+		this.pickEntry = pickEntry;
+		this.allEntries.forEach((entries, key) => {
+			this.allVariables.set(key, this.pickEntry(entries));
+		});
 	}
 
 	public clearFileCache(filePath: string) {
-		this.cachedVariables[filePath]?.forEach((_, key) => {
-			this.allVariables?.delete(key);
+		this.cachedVariables.get(filePath)?.forEach((fileEntries, key) => {
+			// other files may still declare the same key
+			const remaining = this.getEntries(key).filter(
+				(entry) => !fileEntries.includes(entry)
+			);
+
+			if (remaining.length > 0) {
+				this.allEntries.set(key, remaining);
+				this.allVariables.set(key, this.pickEntry(remaining));
+			} else {
+				this.allEntries.delete(key);
+				this.allVariables.delete(key);
+			}
 		});
-		this.cachedVariables[filePath]?.clear();
+		this.cachedVariables.delete(filePath);
 	}
 
 	public clearAllCache() {
-		this.allVariables?.clear();
+		this.allVariables.clear();
+		this.allEntries.clear();
 		this.cachedVariables.clear();
 	}
-}
\ No newline at end of file
+}
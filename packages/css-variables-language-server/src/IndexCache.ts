@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import path from 'path';
+import type { CSSVariablesSettings, FileSnapshot } from './CSSVariableManager';
+
+// bump whenever the shape of the snapshots changes
+const CACHE_VERSION = 3;
+
+type IndexCacheEntry = {
+  mtime: number
+  hash: string
+  snapshot: FileSnapshot
+}
+
+type IndexCacheFile = {
+  version: number
+  fingerprint: string
+  files: Record<string, IndexCacheEntry>
+}
+
+const getHash = (content: string) =>
+  crypto.createHash('sha1').update(content).digest('hex');
+
+const getModifiedTime = (filePath: string) => {
+  try {
+    return fs.statSync(filePath).mtimeMs;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Index Cache
+ *
+ * Persists the parsed content of every indexed file, so files that did not
+ * change since the last run do not have to be parsed again. A file is
+ * unchanged when its modification time or the hash of its content matches.
+ * The cache is dropped when the settings that affect parsing change.
+ */
+export default class IndexCache {
+  private entries: Map<string, IndexCacheEntry> = new Map();
+
+  constructor(private cachePath: string, private fingerprint: string) {}
+
+  /**
+   * Hashes the content of a file
+   */
+  public static getHash(content: string): string {
+    return getHash(content);
+  }
+
+  /**
+   * Hashes the settings that change the result of parsing a file
+   */
+  public static getFingerprint(settings: CSSVariablesSettings): string {
+    return getHash(JSON.stringify([
+      settings.enableCustomMedia,
+      settings.tokenPrefix,
+      settings.tokenSeparator,
+    ]));
+  }
+
+  public load() {
+    try {
+      const data: IndexCacheFile = JSON.parse(fs.readFileSync(this.cachePath, 'utf8'));
+
+      if (data.version === CACHE_VERSION && data.fingerprint === this.fingerprint) {
+        this.entries = new Map(Object.entries(data.files));
+      }
+    } catch {
+      // there is no cache yet or it cannot be read, everything is parsed
+    }
+  }
+
+  /**
+   * Returns the snapshot of the file if it did not change since it was cached
+   */
+  public getSnapshot(filePath: string): FileSnapshot | undefined {
+    const entry = this.entries.get(filePath);
+    const mtime = getModifiedTime(filePath);
+    if (!entry || mtime === undefined) {
+      return undefined;
+    }
+
+    if (entry.mtime === mtime) {
+      return entry.snapshot;
+    }
+
+    // the file may have been touched without changing, e.g. by git
+    try {
+      if (getHash(fs.readFileSync(filePath, 'utf8')) === entry.hash) {
+        entry.mtime = mtime;
+        entry.snapshot.mtime = mtime;
+        return entry.snapshot;
+      }
+    } catch {
+      // the file cannot be read anymore
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Replaces the content of the cache with the given snapshots and writes
+   * it to disk. Snapshots keep the hash and the modification time of the
+   * content they were parsed from, the files are not read again; snapshots
+   * of unsaved content have no modification time and are left out
+   */
+  public async save(snapshots: Map<string, FileSnapshot>) {
+    const files: Record<string, IndexCacheEntry> = {};
+
+    snapshots.forEach((snapshot, filePath) => {
+      if (snapshot.mtime === undefined || !snapshot.hash) {
+        return;
+      }
+
+      files[filePath] = { mtime: snapshot.mtime, hash: snapshot.hash, snapshot };
+    });
+
+    this.entries = new Map(Object.entries(files));
+
+    const data: IndexCacheFile = {
+      version: CACHE_VERSION,
+      fingerprint: this.fingerprint,
+      files,
+    };
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.cachePath), { recursive: true });
+      await fs.promises.writeFile(this.cachePath, JSON.stringify(data));
+    } catch (error) {
+      console.error(error, `cannot write the index cache ${this.cachePath}`);
+    }
+  }
+}
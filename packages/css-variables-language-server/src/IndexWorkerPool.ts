@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import { Worker } from 'worker_threads';
+import type { CSSVariablesSettings, FileSnapshot } from './CSSVariableManager';
+
+export type IndexWorkerTask = {
+  id: number
+  filePath: string
+  settings: CSSVariablesSettings
+}
+
+export type IndexWorkerResult = {
+  id: number
+  snapshot?: FileSnapshot
+  error?: string
+}
+
+type PendingTask = IndexWorkerTask & {
+  resolve: (snapshot: FileSnapshot) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Index Worker Pool
+ *
+ * Parses files in worker threads, so reading and parsing thousands of
+ * stylesheets does not block the language server. Every worker parses one
+ * file at a time, the other files wait in a queue.
+ */
+export default class IndexWorkerPool {
+  private idleWorkers: Worker[] = [];
+  private workerCount = 0;
+  private queue: PendingTask[] = [];
+  private runningTasks: Map<Worker, PendingTask> = new Map();
+  private nextTaskId = 0;
+
+  constructor(
+    private workerPath: string,
+    private size = Math.max(1, Math.min(4, os.cpus().length - 1))
+  ) {}
+
+  /**
+   * Returns a pool for the given worker script, or nothing when the script
+   * does not exist, e.g. when the server runs from its sources
+   */
+  public static create(workerPath: string): IndexWorkerPool | undefined {
+    return fs.existsSync(workerPath) ? new IndexWorkerPool(workerPath) : undefined;
+  }
+
+  /**
+   * Parses a file in a worker, its imports are not followed
+   */
+  public parse(filePath: string, settings: CSSVariablesSettings): Promise<FileSnapshot> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextTaskId++, filePath, settings, resolve, reject });
+      this.runNext();
+    });
+  }
+
+  public terminate() {
+    this.queue.forEach((task) => task.reject(new Error('The worker pool was terminated')));
+    this.queue = [];
+    this.idleWorkers.forEach((worker) => worker.terminate());
+    this.idleWorkers = [];
+    this.runningTasks.forEach((task, worker) => {
+      task.reject(new Error('The worker pool was terminated'));
+      worker.terminate();
+    });
+    this.runningTasks.clear();
+    this.workerCount = 0;
+  }
+
+  private runNext() {
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    const worker = this.idleWorkers.pop() || this.createWorker();
+    if (!worker) {
+      return;
+    }
+
+    const task = this.queue.shift();
+    this.runningTasks.set(worker, task);
+
+    const message: IndexWorkerTask = {
+      id: task.id,
+      filePath: task.filePath,
+      settings: task.settings,
+    };
+    worker.postMessage(message);
+  }
+
+  private createWorker(): Worker | undefined {
+    if (this.workerCount >= this.size) {
+      return undefined;
+    }
+
+    const worker = new Worker(this.workerPath);
+    this.workerCount++;
+    // idle workers should not keep the server alive
+    worker.unref();
+
+    worker.on('message', (result: IndexWorkerResult) => {
+      const task = this.runningTasks.get(worker);
+      this.runningTasks.delete(worker);
+      this.idleWorkers.push(worker);
+
+      if (task) {
+        if (result.snapshot) {
+          task.resolve(result.snapshot);
+        } else {
+          task.reject(new Error(result.error || `cannot parse ${task.filePath}`));
+        }
+      }
+
+      this.runNext();
+    });
+
+    worker.on('error', (error) => {
+      const task = this.runningTasks.get(worker);
+      this.runningTasks.delete(worker);
+      this.workerCount--;
+
+      task?.reject(error);
+      this.runNext();
+    });
+
+    return worker;
+  }
+}
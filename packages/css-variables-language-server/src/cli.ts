@@ -0,0 +1,249 @@
+import * as fs from 'fs';
+import path from 'path';
+import { parse as parseJSONC } from 'jsonc-parser';
+import CSSVariableManager, {
+  CSSVariablesSettings,
+  defaultSettings,
+} from './CSSVariableManager';
+import IndexWorkerPool from './IndexWorkerPool';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  formatVariableRecords,
+  getVariableRecords,
+} from './utils/exportVariables';
+import { checkVariables } from './utils/checkVariables';
+import { CHECK_FORMATS, CheckFormat, formatCheckProblems } from './utils/formatCheckProblems';
+import {
+  generateTypeDeclarations,
+  writeTypeDeclarations,
+} from './utils/generateTypeDeclarations';
+
+const USAGE = `Usage: css-variables-language-server <command> [options] [dir]
+
+Runs the language server when no command is given.
+
+Commands:
+  list                         prints the variables indexed in dir
+  export                       prints the variables indexed in dir as json, csv or markdown
+  check                        reports undefined variables and custom media, circular
+                               references and conflicting definitions, exits with 1
+                               when there are errors
+  types                        prints TypeScript declarations of the variable names
+
+Options:
+  --json                       same as --format json
+  --format <format>            json, csv or markdown, json by default for export
+                               human, json or sarif for check, human by default
+  --output <file>              writes the declarations of types to the file instead
+  --lookup-files <glob>        replaces cssVariables.lookupFiles, can be repeated
+  --blacklist-folders <glob>   replaces cssVariables.blacklistFolders, can be repeated
+  --help                       prints this message
+
+Settings are read from dir/.vscode/settings.json, dir is the current
+directory by default.
+`;
+
+export type CliIO = {
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+type CliOptions = {
+  command: string
+  dir: string
+  format?: string
+  output?: string
+  lookupFiles: string[]
+  blacklistFolders: string[]
+  help: boolean
+}
+
+class UsageError extends Error {}
+
+const COMMANDS = ['list', 'export', 'check', 'types'];
+
+function parseArgs(args: string[]): CliOptions {
+  const [command, ...rest] = args;
+  const options: CliOptions = {
+    command,
+    dir: process.cwd(),
+    lookupFiles: [],
+    blacklistFolders: [],
+    help: command === '--help' || command === 'help',
+  };
+
+  const getValue = (index: number) => {
+    const value = rest[index + 1];
+    if (value === undefined || value.startsWith('--')) {
+      throw new UsageError(`${rest[index]} needs a value`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+
+    switch (arg) {
+      case '--help':
+        options.help = true;
+        break;
+      case '--json':
+        options.format = 'json';
+        break;
+      case '--format':
+        options.format = getValue(i++);
+        break;
+      case '--output':
+        options.output = path.resolve(getValue(i++));
+        break;
+      case '--lookup-files':
+        options.lookupFiles.push(getValue(i++));
+        break;
+      case '--blacklist-folders':
+        options.blacklistFolders.push(getValue(i++));
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          throw new UsageError(`unknown option ${arg}`);
+        }
+        options.dir = path.resolve(arg);
+    }
+  }
+
+  if (options.help) {
+    return options;
+  }
+
+  if (!COMMANDS.includes(command)) {
+    throw new UsageError(`unknown command ${command}`);
+  }
+
+  const formats: readonly string[] = command === 'check' ? CHECK_FORMATS : EXPORT_FORMATS;
+  if (options.format && !formats.includes(options.format)) {
+    throw new UsageError(`unknown format ${options.format}, expected ${formats.join(', ')}`);
+  }
+
+  return options;
+}
+
+/**
+ * Reads the `cssVariables.*` entries of the folder's VS Code settings,
+ * options given on the command line take precedence
+ */
+export function loadSettings(
+  dir: string,
+  overrides: Partial<CSSVariablesSettings> = {}
+): CSSVariablesSettings {
+  const settings: Record<string, unknown> = { ...defaultSettings };
+
+  try {
+    const content = fs.readFileSync(path.join(dir, '.vscode', 'settings.json'), 'utf8');
+    const vscodeSettings = parseJSONC(content) || {};
+
+    Object.entries(vscodeSettings).forEach(([key, value]) => {
+      if (key.startsWith('cssVariables.')) {
+        settings[key.slice('cssVariables.'.length)] = value;
+      } else if (key === 'cssVariables' && value && typeof value === 'object') {
+        Object.assign(settings, value);
+      }
+    });
+  } catch {
+    // the folder has no settings, the defaults are used
+  }
+
+  return { ...(settings as unknown as CSSVariablesSettings), ...overrides };
+}
+
+/**
+ * Indexes a folder the way the language server does, without an editor
+ */
+export async function indexFolder(dir: string, settings: CSSVariablesSettings) {
+  // the worker script is bundled next to the cli
+  const workerPool = IndexWorkerPool.create(path.join(__dirname, 'indexWorker.js'));
+  const cssVariableManager = new CSSVariableManager({ workerPool });
+
+  try {
+    await cssVariableManager.parseAndSyncVariables([dir], settings);
+  } finally {
+    workerPool?.terminate();
+  }
+
+  return cssVariableManager;
+}
+
+/**
+ * Runs a command of the binary and returns its exit code
+ */
+export async function runCli(
+  args: string[],
+  io: CliIO = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  }
+): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw error;
+  }
+
+  if (options.help) {
+    io.stdout(USAGE);
+    return 0;
+  }
+
+  if (!fs.existsSync(options.dir)) {
+    io.stderr(`${options.dir} does not exist\n`);
+    return 2;
+  }
+
+  const overrides: Partial<CSSVariablesSettings> = {};
+  if (options.lookupFiles.length > 0) {
+    overrides.lookupFiles = options.lookupFiles;
+  }
+  if (options.blacklistFolders.length > 0) {
+    overrides.blacklistFolders = options.blacklistFolders;
+  }
+
+  const settings = loadSettings(options.dir, overrides);
+  const cssVariableManager = await indexFolder(options.dir, settings);
+
+  if (options.command === 'check') {
+    const problems = checkVariables(cssVariableManager, settings);
+    const format = (options.format || 'human') as CheckFormat;
+    io.stdout(`${formatCheckProblems(problems, format, options.dir)}\n`);
+
+    return problems.some((problem) => problem.severity === 'error') ? 1 : 0;
+  }
+
+  if (options.command === 'types') {
+    const names = cssVariableManager.getAll().keys();
+    if (options.output) {
+      await writeTypeDeclarations(options.output, names);
+    } else {
+      io.stdout(generateTypeDeclarations(names));
+    }
+    return 0;
+  }
+
+  const records = getVariableRecords(cssVariableManager, options.dir);
+
+  if (options.command === 'list' && !options.format) {
+    records.forEach((record) => {
+      const resolved = record.resolvedValue !== record.value ? ` (${record.resolvedValue})` : '';
+      io.stdout(
+        `${record.name}: ${record.value}${resolved}  ${record.file}:${record.line}:${record.column}\n`
+      );
+    });
+    return 0;
+  }
+
+  io.stdout(`${formatVariableRecords(records, (options.format || 'json') as ExportFormat)}\n`);
+  return 0;
+}
@@ -4,6 +4,8 @@ import {
   ProposedFeatures,
   InitializeParams,
   DidChangeConfigurationNotification,
+  DidChangeWatchedFilesNotification,
+  Disposable,
   CompletionItem,
   CompletionItemKind,
   TextDocumentPositionParams,
@@ -13,16 +15,65 @@ import {
   FileChangeType,
   Hover,
   TextEdit,
+  Diagnostic,
+  DiagnosticSeverity,
+  DiagnosticTag,
+  Location,
+  ColorPresentation,
+  MarkupKind,
+  DocumentSymbol,
+  SymbolInformation,
+  SymbolKind,
+  Range,
+  InlayHint,
+  CompletionList,
+  CancellationTokenSource,
 } from 'vscode-languageserver/node';
 import * as fs from 'fs';
+import * as crypto from 'crypto';
+import path from 'path';
 import { Position, TextDocument } from 'vscode-languageserver-textdocument';
 import isColor from './utils/isColor';
+import isLength from './utils/isLength';
 import { uriToPath } from './utils/protocol';
 import { findAll } from './utils/findAll';
 import { indexToPosition } from './utils/indexToPosition';
 import { getCurrentWord, getCurrentWordInfo } from './utils/getCurrentWord';
 import { isInFunctionExpression } from './utils/isInFunctionExpression';
-import CSSVariableManager, { CSSVariablesSettings, defaultSettings } from './CSSVariableManager';
+import { findVariableUsages } from './utils/findVariableUsages';
+import { findClosestName } from './utils/findClosestName';
+import { formatDefinitions } from './utils/formatDefinitions';
+import { getVariableColorPresentations } from './utils/getVariableColorPresentations';
+import { findDeclarationValue } from './utils/findDeclarationValue';
+import { fuzzyMatch } from './utils/fuzzyMatch';
+import { escapeRegExp } from './utils/escapeRegExp';
+import { formatPropertyRegistration, formatVariableHover } from './utils/formatVariableHover';
+import { matchesPropertySyntax } from './utils/matchesPropertySyntax';
+import { resolveVariableValue } from './utils/resolveVariableValue';
+import { writeTypeDeclarations } from './utils/generateTypeDeclarations';
+import { getSassMapModule } from './utils/getSassMapModule';
+import { renameVariable } from './utils/renameVariable';
+import { readFileContent } from './utils/readFileContent';
+import {
+  PREPROCESSOR_PREFIXES,
+  getPreprocessorSyntax,
+  getPreprocessorVariableName,
+} from './utils/getPreprocessorVariableName';
+import {
+  CompletionRankingContext,
+  getCompletionScore,
+  getCurrentProperty,
+  getValueKind,
+  toSortText,
+} from './utils/rankCompletions';
+import IndexCache from './IndexCache';
+import IndexWorkerPool from './IndexWorkerPool';
+import CSSVariableManager, {
+  CSSVariable,
+  CSSVariablesSettings,
+  PreprocessorSyntax,
+  defaultSettings,
+} from './CSSVariableManager';
 import { formatHex } from 'culori';
 
 // Create a connection for the server, using Node's IPC as a transport.
@@ -35,11 +86,46 @@ const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
 let hasDiagnosticRelatedInformationCapability = false;
-
-const cssVariableManager = new CSSVariableManager();
+let hasPrepareRenameCapability = false;
+let hasMarkdownHoverCapability = false;
+let hasInlayHintRefreshCapability = false;
+let hasWatchedFilesRegistrationCapability = false;
+let hasRelativePatternCapability = false;
+
+// every workspace folder has its own settings and index, keyed by the
+// folder uri
+const folderIndexes: Map<string, CSSVariableManager> = new Map();
+// used when there is no workspace folder
+const defaultIndex = new CSSVariableManager();
+
+// folder where the index of every workspace folder is cached between runs,
+// provided by the client
+let storagePath: string | undefined;
+
+// Diagnostics are held back until the first workspace scan has finished,
+// otherwise every reference would be reported as undefined on startup.
+let hasIndexedWorkspace = false;
+
+// the scan of every workspace folder, a newer scan (e.g. after a settings
+// change) supersedes the running one
+let workspaceScan: Promise<void> | undefined;
+let workspaceScanGeneration = 0;
+
+// scans in progress per workspace folder uri, cancelled when the folder is
+// indexed again
+const runningScans: Map<string, CancellationTokenSource> = new Map();
+
+// file watchers registered for the lookup files of every workspace folder
+const fileWatchers: Map<string, Disposable> = new Map();
+
+// files are parsed in worker threads, the worker script is bundled next to
+// the server. Without it, e.g. when running from the sources, files are
+// parsed on the main thread
+const workerPool = IndexWorkerPool.create(path.join(__dirname, 'indexWorker.js'));
 
 connection.onInitialize(async (params: InitializeParams) => {
   const capabilities = params.capabilities;
+  storagePath = params.initializationOptions?.storagePath;
 
   // Does the client support the `workspace/configuration` request?
   // If not, we fall back using global settings.
@@ -54,6 +140,32 @@ connection.onInitialize(async (params: InitializeParams) => {
     capabilities.textDocument.publishDiagnostics &&
     capabilities.textDocument.publishDiagnostics.relatedInformation
   );
+  hasMarkdownHoverCapability = !!(
+    capabilities.textDocument &&
+    capabilities.textDocument.hover &&
+    capabilities.textDocument.hover.contentFormat &&
+    capabilities.textDocument.hover.contentFormat.includes(MarkupKind.Markdown)
+  );
+  hasInlayHintRefreshCapability = !!(
+    capabilities.workspace &&
+    capabilities.workspace.inlayHint &&
+    capabilities.workspace.inlayHint.refreshSupport
+  );
+  hasPrepareRenameCapability = !!(
+    capabilities.textDocument &&
+    capabilities.textDocument.rename &&
+    capabilities.textDocument.rename.prepareSupport
+  );
+  hasWatchedFilesRegistrationCapability = !!(
+    capabilities.workspace &&
+    capabilities.workspace.didChangeWatchedFiles &&
+    capabilities.workspace.didChangeWatchedFiles.dynamicRegistration
+  );
+  hasRelativePatternCapability = !!(
+    capabilities.workspace &&
+    capabilities.workspace.didChangeWatchedFiles &&
+    capabilities.workspace.didChangeWatchedFiles.relativePatternSupport
+  );
 
   const result: InitializeResult = {
     capabilities: {
@@ -62,12 +174,23 @@ connection.onInitialize(async (params: InitializeParams) => {
       completionProvider: {
         resolveProvider: true,
         // trigger on hyphen so that variables and custom-media suggestions
-        // are requested even inside `@media (--)` clauses.
-        triggerCharacters: ['-'],
+        // are requested even inside `@media (--)` clauses, `$` and `@`
+        // start Sass and Less variables.
+        triggerCharacters: ['-', '$', '@'],
       },
       definitionProvider: true,
+      referencesProvider: true,
+      renameProvider: hasPrepareRenameCapability
+        ? { prepareProvider: true }
+        : true,
       hoverProvider: true,
       colorProvider: true,
+      documentSymbolProvider: true,
+      workspaceSymbolProvider: true,
+      inlayHintProvider: true,
+      executeCommandProvider: {
+        commands: [RECORD_COMPLETION_COMMAND],
+      },
     },
   };
 
@@ -90,95 +213,713 @@ connection.onInitialized(async () => {
     );
   }
   if (hasWorkspaceFolderCapability) {
-    connection.workspace.onDidChangeWorkspaceFolders((_event) => {
-      connection.console.log('Workspace folder change event received.');
+    connection.workspace.onDidChangeWorkspaceFolders(async (event) => {
+      event.removed.forEach((folder) => {
+        runningScans.get(folder.uri)?.cancel();
+        fileWatchers.get(folder.uri)?.dispose();
+        fileWatchers.delete(folder.uri);
+        folderIndexes.delete(folder.uri);
+        documentSettings.delete(folder.uri);
+      });
+
+      for (const folder of event.added) {
+        await indexWorkspaceFolder(folder.uri);
+      }
+
+      handleIndexChange();
     });
   }
 
   const workspaceFolders = await connection.workspace.getWorkspaceFolders();
-  const validFolders = workspaceFolders
-    ?.map((folder) => uriToPath(folder.uri) || '')
-    .filter((path) => !!path);
-
-  const settings = await getDocumentSettings();
-
-  // parse and sync variables
-  cssVariableManager.parseAndSyncVariables(validFolders || [], settings);
+  await scanWorkspaceFolders((workspaceFolders || []).map((folder) => folder.uri));
 });
 
 let globalSettings = defaultSettings;
 
-// Cache the settings of all open documents
+// Cache the settings of every workspace folder
 const documentSettings: Map<string, Thenable<CSSVariablesSettings>> = new Map();
 
 connection.onDidChangeConfiguration(async (change) => {
   if (hasConfigurationCapability) {
-    // Reset all cached document settings
+    const folderUris = Array.from(folderIndexes.keys());
+    const previousSettings = folderUris.map((folderUri) => documentSettings.get(folderUri));
+
+    // Reset all cached folder settings
     documentSettings.clear();
-    cssVariableManager.clearAllCache();
-
-    const validFolders = await connection.workspace
-      .getWorkspaceFolders()
-      .then((folders) =>
-        folders
-          ?.map((folder) => uriToPath(folder.uri) || '')
-          .filter((path) => !!path)
-      );
 
-    const settings = await getDocumentSettings();
+    // a new theme only changes which definitions are picked, the folder
+    // does not have to be indexed again
+    const isThemeChange = await Promise.all(
+      folderUris.map(async (folderUri, index) => {
+        const previous = await previousSettings[index];
+        const settings = await getDocumentSettings(folderUri);
+        if (!previous || !isSameExceptTheme(previous, settings)) {
+          return false;
+        }
+
+        const cssVariableManager = folderIndexes.get(folderUri);
+        cssVariableManager.setActiveTheme(settings.activeTheme);
+        cssVariableManager.resolveVariableReferences();
+        return true;
+      })
+    );
 
-    // parse and sync variables
-    cssVariableManager.parseAndSyncVariables(validFolders || [], settings);
+    const changedFolders = folderUris.filter((_, index) => !isThemeChange[index]);
+    if (changedFolders.length > 0) {
+      await scanWorkspaceFolders(changedFolders);
+    } else {
+      handleIndexChange();
+    }
   } else {
     globalSettings = <CSSVariablesSettings>(
       (change.settings?.cssVariables || defaultSettings)
     );
+
+    getAllVariableManagers().forEach((cssVariableManager) => {
+      cssVariableManager.setActiveTheme(globalSettings.activeTheme);
+      cssVariableManager.resolveVariableReferences();
+    });
+
+    handleIndexChange();
   }
 });
 
-function getDocumentSettings(): Thenable<CSSVariablesSettings> {
-  const resource = 'all';
+/**
+ * Whether two settings only differ by their `activeTheme`
+ */
+function isSameExceptTheme(a: CSSVariablesSettings, b: CSSVariablesSettings) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof CSSVariablesSettings>;
+
+  return Array.from(keys).every(
+    (key) => key === 'activeTheme' || JSON.stringify(a[key]) === JSON.stringify(b[key])
+  );
+}
+
+/**
+ * Indexes the given workspace folders one after another, cancelling the
+ * scan that is still running
+ */
+function scanWorkspaceFolders(folderUris: string[]): Promise<void> {
+  const generation = ++workspaceScanGeneration;
+  hasIndexedWorkspace = false;
+  runningScans.forEach((tokenSource) => tokenSource.cancel());
+
+  workspaceScan = (async () => {
+    for (const folderUri of folderUris) {
+      try {
+        await indexWorkspaceFolder(folderUri);
+      } catch (error) {
+        // the other folders are still indexed, requests must not wait forever
+        connection.console.error(`cannot index ${folderUri}: ${error}`);
+      }
+
+      if (generation !== workspaceScanGeneration) {
+        return;
+      }
+    }
+
+    hasIndexedWorkspace = true;
+    handleIndexChange();
+  })();
+
+  return workspaceScan;
+}
+
+/**
+ * Resolves once every workspace folder is indexed, requests that need the
+ * whole index wait for it instead of answering from a partial one
+ */
+async function waitForWorkspaceScan() {
+  // the awaited scan may be superseded by a newer one
+  while (!hasIndexedWorkspace && workspaceScan) {
+    await workspaceScan;
+  }
+}
+
+/**
+ * Returns the uri of the innermost workspace folder containing the given
+ * document
+ */
+function getWorkspaceFolder(uri: string): string | undefined {
+  const filePath = uriToPath(uri);
+  let workspaceFolder: string | undefined;
+  let workspaceFolderPath = '';
+
+  folderIndexes.forEach((_, folderUri) => {
+    const folderPath = uriToPath(folderUri);
+    if (!filePath || !folderPath || folderPath.length <= workspaceFolderPath.length) {
+      return;
+    }
+
+    const relativePath = path.relative(folderPath, filePath);
+    if (!relativePath.startsWith('..') && !path.isAbsolute(relativePath)) {
+      workspaceFolder = folderUri;
+      workspaceFolderPath = folderPath;
+    }
+  });
+
+  return workspaceFolder;
+}
+
+/**
+ * Returns the index of the workspace folder containing the given document,
+ * documents outside of every folder use the index of the first one
+ */
+function getVariableManager(uri: string): CSSVariableManager {
+  const workspaceFolder = getWorkspaceFolder(uri);
+  if (workspaceFolder) {
+    return folderIndexes.get(workspaceFolder);
+  }
+
+  return folderIndexes.values().next().value || defaultIndex;
+}
+
+/**
+ * Returns the index of every workspace folder
+ */
+function getAllVariableManagers(): CSSVariableManager[] {
+  return folderIndexes.size > 0 ? Array.from(folderIndexes.values()) : [defaultIndex];
+}
+
+/**
+ * Rebuilds the index of a workspace folder with its own settings and
+ * reports the number of indexed files to the client. The new index is built
+ * off to the side, requests keep using the previous one until it completes
+ */
+async function indexWorkspaceFolder(folderUri: string) {
+  const folderPath = uriToPath(folderUri);
+  const cssVariableManager = new CSSVariableManager({ workerPool });
+
+  runningScans.get(folderUri)?.cancel();
+  if (!folderPath) {
+    folderIndexes.set(folderUri, cssVariableManager);
+    return;
+  }
+
+  // a new folder is known right away so that its documents are not
+  // attributed to another one while it is scanned
+  if (!folderIndexes.has(folderUri)) {
+    folderIndexes.set(folderUri, cssVariableManager);
+  }
+
+  const tokenSource = new CancellationTokenSource();
+  runningScans.set(folderUri, tokenSource);
+
+  const progress = await connection.window.createWorkDoneProgress();
+  progress.begin('Indexing CSS variables', 0, path.basename(folderPath), true);
+  progress.token.onCancellationRequested(() => tokenSource.cancel());
+
+  let reportedPercentage = 0;
+  const onProgress = (indexed: number, total: number) => {
+    const percentage = total > 0 ? Math.floor((indexed / total) * 100) : 100;
+    if (percentage > reportedPercentage || indexed === total) {
+      reportedPercentage = percentage;
+      progress.report(percentage, `${indexed}/${total} files`);
+    }
+  };
+
+  try {
+    const settings = await getDocumentSettings(folderUri);
+    await watchWorkspaceFolder(folderUri, settings);
+
+    let isComplete = false;
+    try {
+      await cssVariableManager.parseAndSyncVariables([folderPath], settings, {
+        indexCache: getIndexCache(folderUri, settings),
+        token: tokenSource.token,
+        onProgress,
+      });
+      isComplete = true;
+    } catch (error) {
+      // the files indexed before the error are still worth answering from
+      connection.console.error(`cannot index ${folderPath}: ${error}`);
+    }
+
+    // a cancelled scan was superseded or its folder was removed
+    if (!tokenSource.token.isCancellationRequested) {
+      await parseOpenDocuments(folderUri, cssVariableManager, settings);
+      folderIndexes.set(folderUri, cssVariableManager);
+
+      // the cache of an incomplete scan would miss the files it did not reach
+      if (isComplete) {
+        await cssVariableManager.saveIndexCache(getOpenFiles());
+      }
+      await updateTypeDeclarations(folderUri);
+    }
+  } finally {
+    progress.done();
+    if (runningScans.get(folderUri) === tokenSource) {
+      runningScans.delete(folderUri);
+    }
+    tokenSource.dispose();
+  }
+}
+
+/**
+ * Registers file watchers for the lookup files of a workspace folder,
+ * replacing the ones of its previous settings. The client only knows the
+ * folders and settings it started with
+ */
+async function watchWorkspaceFolder(folderUri: string, settings: CSSVariablesSettings) {
+  if (!hasWatchedFilesRegistrationCapability) {
+    return;
+  }
+
+  let registration: Disposable;
+  try {
+    registration = await connection.client.register(DidChangeWatchedFilesNotification.type, {
+      watchers: settings.lookupFiles.map((pattern) => ({
+        globPattern: hasRelativePatternCapability ? { baseUri: folderUri, pattern } : pattern,
+      })),
+    });
+  } catch (error) {
+    connection.console.error(`cannot watch the files of ${folderUri}: ${error}`);
+    return;
+  }
+
+  fileWatchers.get(folderUri)?.dispose();
+  fileWatchers.set(folderUri, registration);
+
+  // the folder was removed while the watchers were registered
+  if (!folderIndexes.has(folderUri)) {
+    registration.dispose();
+    fileWatchers.delete(folderUri);
+  }
+}
+
+/**
+ * Parses the open documents of a freshly scanned folder again, the scan
+ * took their files from disk, the index cache or the workers and dropped
+ * their unsaved changes
+ */
+async function parseOpenDocuments(
+  folderUri: string,
+  cssVariableManager: CSSVariableManager,
+  settings: CSSVariablesSettings
+) {
+  // documents outside of every folder use the index of the first one
+  const firstFolderUri = folderIndexes.keys().next().value;
+
+  for (const document of documents.all()) {
+    const filePath = uriToPath(document.uri);
+    if (!filePath || (getWorkspaceFolder(document.uri) ?? firstFolderUri) !== folderUri) {
+      continue;
+    }
+
+    if (cssVariableManager.isIndexedFile(filePath)) {
+      await cssVariableManager.parseCSSVariablesFromText({
+        content: document.getText(),
+        filePath,
+        settings,
+      });
+    } else {
+      cssVariableManager.parseUsagesFromText({ content: document.getText(), filePath });
+    }
+  }
+
+  cssVariableManager.resolveVariableReferences();
+}
+
+/**
+ * Loads the cached index of a workspace folder, files that did not change
+ * since the last run are restored from it instead of being parsed again
+ */
+function getIndexCache(folderUri: string, settings: CSSVariablesSettings) {
+  if (!storagePath) {
+    return undefined;
+  }
+
+  const folderHash = crypto.createHash('sha1').update(folderUri).digest('hex');
+  const indexCache = new IndexCache(
+    path.join(storagePath, `index-${folderHash}.json`),
+    IndexCache.getFingerprint(settings)
+  );
+  indexCache.load();
+
+  return indexCache;
+}
+
+// written when `cssVariables.generateTypeDeclarations` is run without a
+// configured file
+const DEFAULT_TYPE_DECLARATIONS_FILE = 'css-variables.d.ts';
+
+/**
+ * Writes the TypeScript declarations of a workspace folder's variables,
+ * relative paths are resolved from the folder. Returns the written path
+ */
+async function generateFolderTypeDeclarations(folderUri: string, outputFile: string) {
+  const folderPath = uriToPath(folderUri);
+  const cssVariableManager = folderIndexes.get(folderUri);
+  if (!folderPath || !cssVariableManager) {
+    return undefined;
+  }
+
+  const outputPath = path.resolve(folderPath, outputFile);
+  try {
+    await writeTypeDeclarations(outputPath, cssVariableManager.getAll().keys());
+  } catch (error) {
+    connection.console.error(`cannot write ${outputPath}: ${error}`);
+    return undefined;
+  }
+
+  return outputPath;
+}
+
+/**
+ * Regenerates the declarations of a workspace folder when
+ * `cssVariables.typeDeclarationsFile` is set
+ */
+async function updateTypeDeclarations(folderUri: string) {
+  const settings = await getDocumentSettings(folderUri);
+  if (settings.typeDeclarationsFile) {
+    await generateFolderTypeDeclarations(folderUri, settings.typeDeclarationsFile);
+  }
+}
+
+// open documents may have unsaved changes that must not be cached
+function getOpenFiles(): string[] {
+  return documents
+    .all()
+    .map((document) => uriToPath(document.uri))
+    .filter((filePath): filePath is string => !!filePath);
+}
+
+/**
+ * Returns the settings of the workspace folder containing the given
+ * document
+ */
+function getDocumentSettings(uri?: string): Thenable<CSSVariablesSettings> {
   if (!hasConfigurationCapability) {
     return Promise.resolve(globalSettings);
   }
+
+  const workspaceFolder = uri && getWorkspaceFolder(uri);
+  const resource = workspaceFolder || '';
   let result = documentSettings.get(resource);
   if (!result) {
-    result = connection.workspace.getConfiguration('cssVariables');
+    result = connection.workspace.getConfiguration({
+      scopeUri: workspaceFolder || undefined,
+      section: 'cssVariables',
+    });
     documentSettings.set(resource, result);
   }
   return result;
 }
 
-// Only keep settings for open documents
+// Open documents of indexed files are indexed again from their unsaved
+// content once typing pauses, other documents are validated again
+const REINDEX_DELAY = 300;
+const pendingReindexes: Map<string, ReturnType<typeof setTimeout>> = new Map();
+// documents waiting for the running scan, they are read once it is done
+const deferredReindexes: Set<string> = new Set();
+
+/**
+ * Indexes a file from the given content, replacing the declarations and
+ * usages of its previous version
+ */
+async function reindexFile(uri: string, content: string) {
+  const filePath = uriToPath(uri);
+  if (!filePath) {
+    return;
+  }
+
+  const cssVariableManager = getVariableManager(uri);
+  const settings = await getDocumentSettings(uri);
+  await cssVariableManager.parseCSSVariablesFromText({
+    content,
+    filePath,
+    settings,
+  });
+  cssVariableManager.resolveVariableReferences();
+
+  handleIndexChange();
+}
+
+/**
+ * Indexes an open document from its unsaved content. During a scan this
+ * waits for it to finish, snapshots restored from the workers would replace
+ * the content otherwise
+ */
+async function reindexDocument(uri: string) {
+  if (!hasIndexedWorkspace) {
+    if (deferredReindexes.has(uri)) {
+      return;
+    }
+
+    deferredReindexes.add(uri);
+    await waitForWorkspaceScan();
+    deferredReindexes.delete(uri);
+  }
+
+  const document = documents.get(uri);
+  if (document) {
+    await reindexFile(uri, document.getText());
+  }
+}
+
 documents.onDidClose((e) => {
   connection.console.log('Closed: ' + e.document.uri);
-  documentSettings.delete(e.document.uri);
+  connection.sendDiagnostics({ uri: e.document.uri, diagnostics: [] });
+
+  clearTimeout(pendingReindexes.get(e.document.uri));
+  pendingReindexes.delete(e.document.uri);
+
+  // workspace files fall back to their content on disk, dropping unsaved
+  // changes, other documents are only tracked while they are open
+  const filePath = uriToPath(e.document.uri);
+  const cssVariableManager = getVariableManager(e.document.uri);
+  if (filePath) {
+    if (cssVariableManager.isIndexedFile(filePath) && fs.existsSync(filePath)) {
+      reindexFile(e.document.uri, fs.readFileSync(filePath, 'utf8'));
+    } else {
+      cssVariableManager.clearUsages(filePath);
+    }
+  }
 });
 
+// The content of a text document has changed. This event is emitted
+// when the text document first opened or when its content has changed.
+documents.onDidChangeContent((change) => {
+  const { uri } = change.document;
+  const filePath = uriToPath(uri);
+  const cssVariableManager = getVariableManager(uri);
+  if (filePath) {
+    cssVariableManager.parseUsagesFromText({
+      content: change.document.getText(),
+      filePath,
+    });
+  }
+
+  // declarations of indexed files follow the unsaved content
+  const isIndexedFile = !!filePath && cssVariableManager.isIndexedFile(filePath);
+  clearTimeout(pendingReindexes.get(uri));
+  pendingReindexes.set(
+    uri,
+    setTimeout(() => {
+      pendingReindexes.delete(uri);
+
+      if (isIndexedFile) {
+        reindexDocument(uri);
+      } else {
+        // usages in this document affect the unused declarations of other
+        // documents
+        validateAllDocuments();
+      }
+    }, REINDEX_DELAY)
+  );
+});
+
+/**
+ * Returns the variables completion and diagnostics offer in a document,
+ * every indexed variable unless `reachableVariablesOnly` is enabled
+ */
+function getVisibleVariables(uri: string, settings: CSSVariablesSettings) {
+  const filePath = uriToPath(uri);
+  const cssVariableManager = getVariableManager(uri);
+  if (!settings.reachableVariablesOnly || !filePath) {
+    return cssVariableManager.getAll();
+  }
+
+  return cssVariableManager.getReachableVariables(filePath);
+}
+
+/**
+ * Reports every `var(--name)` without a fallback whose name is not visible
+ * from the document, suggesting the closest known variable when there is one, and
+ * every declaration that is not used anywhere in the indexed files.
+ */
+async function validateTextDocument(textDocument: TextDocument): Promise<void> {
+  if (!hasIndexedWorkspace) {
+    return;
+  }
+
+  // e.g. documents of a removed folder, the index of another folder would
+  // report every variable as undefined
+  if (folderIndexes.size > 0 && !getWorkspaceFolder(textDocument.uri)) {
+    connection.sendDiagnostics({ uri: textDocument.uri, diagnostics: [] });
+    return;
+  }
+
+  const settings = await getDocumentSettings(textDocument.uri);
+  const cssVariableManager = getVariableManager(textDocument.uri);
+  const text = textDocument.getText();
+  const allVariables = getVisibleVariables(textDocument.uri, settings);
+  const diagnostics: Diagnostic[] = [];
+
+  findVariableUsages(text).forEach((usage) => {
+    if (usage.hasFallback || allVariables.has(usage.name)) {
+      return;
+    }
+
+    const diagnostic: Diagnostic = {
+      severity: DiagnosticSeverity.Warning,
+      range: {
+        start: textDocument.positionAt(usage.start),
+        end: textDocument.positionAt(usage.end),
+      },
+      message: cssVariableManager.getAll().has(usage.name)
+        ? `CSS variable '${usage.name}' is not imported by this file.`
+        : `CSS variable '${usage.name}' is not defined.`,
+      source: 'css-variables',
+    };
+
+    const suggestion = findClosestName(usage.name, allVariables.keys());
+    if (suggestion) {
+      if (hasDiagnosticRelatedInformationCapability) {
+        diagnostic.relatedInformation = [
+          {
+            location: allVariables.get(suggestion).definition,
+            message: `Did you mean '${suggestion}'?`,
+          },
+        ];
+      } else {
+        diagnostic.message += ` Did you mean '${suggestion}'?`;
+      }
+    }
+
+    diagnostics.push(diagnostic);
+  });
+
+  // declarations of this document that are never referenced or do not
+  // match the syntax they are registered with
+  const filePath = uriToPath(textDocument.uri);
+  if (filePath) {
+    const usageCounts = cssVariableManager.getUsageCounts();
+
+    cssVariableManager.getFileVariables(filePath).forEach((cssVariable) => {
+      const registration = cssVariableManager.getPropertyRegistration(cssVariable.symbol.name);
+      const { value } = cssVariable.symbol;
+
+      if (
+        registration &&
+        !cssVariable.isInitialValue &&
+        !value.includes('var(') &&
+        !matchesPropertySyntax(value, registration.syntax)
+      ) {
+        const valueOffsets = findDeclarationValue(
+          text,
+          textDocument.offsetAt(cssVariable.definition.range.start)
+        );
+
+        diagnostics.push({
+          severity: DiagnosticSeverity.Warning,
+          range: valueOffsets
+            ? {
+              start: textDocument.positionAt(valueOffsets.start),
+              end: textDocument.positionAt(valueOffsets.end),
+            }
+            : cssVariable.definition.range,
+          message: `Value '${value}' does not match the syntax '${registration.syntax}' registered for '${cssVariable.symbol.name}'.`,
+          source: 'css-variables',
+          relatedInformation: hasDiagnosticRelatedInformationCapability
+            ? [{ location: registration.definition, message: 'Registered here' }]
+            : undefined,
+        });
+      }
+
+      if (usageCounts.has(cssVariable.symbol.name)) {
+        return;
+      }
+
+      // variables generated from design tokens point at the key of their
+      // token, their name is not written in the file
+      const { start } = cssVariable.definition.range;
+      const isDesignToken = cssVariable.definition.uri.endsWith('.json');
+      diagnostics.push({
+        severity: DiagnosticSeverity.Hint,
+        range: isDesignToken
+          ? cssVariable.definition.range
+          : {
+            start,
+            end: { line: start.line, character: start.character + cssVariable.symbol.name.length },
+          },
+        message: `CSS variable '${cssVariable.symbol.name}' is never used.`,
+        source: 'css-variables',
+        tags: [DiagnosticTag.Unnecessary],
+      });
+    });
+  }
+
+  connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
+}
+
+function validateAllDocuments(): void {
+  documents.all().forEach(validateTextDocument);
+}
+
+// Everything derived from the index of the whole workspace is outdated
+// once variables were added, changed or removed
+function handleIndexChange(): void {
+  validateAllDocuments();
+
+  if (hasInlayHintRefreshCapability) {
+    connection.languages.inlayHint.refresh();
+  }
+}
+
 connection.onDidChangeWatchedFiles(async (_change) => {
-  const settings = await getDocumentSettings();
+  const changedIndexes: Set<CSSVariableManager> = new Set();
+  const changedFolders: Set<string> = new Set();
+
   // update cached variables
   await Promise.all(
     _change.changes.map(async (change) => {
       const filePath = uriToPath(change.uri);
-      if (filePath) {
-        // remove variables from cache
-        if (change.type === FileChangeType.Deleted) {
-          cssVariableManager.clearFileCache(filePath);
-        } else {
-          const content = fs.readFileSync(filePath, 'utf8');
-          await cssVariableManager.parseCSSVariablesFromText({
-            content,
-            filePath,
-            settings,
-          });
-        }
+      if (!filePath) {
+        return;
+      }
+
+      const settings = await getDocumentSettings(change.uri);
+      const cssVariableManager = getVariableManager(change.uri);
+      changedIndexes.add(cssVariableManager);
+
+      const workspaceFolder = getWorkspaceFolder(change.uri);
+      if (workspaceFolder) {
+        changedFolders.add(workspaceFolder);
+      }
+
+      // remove variables from cache
+      if (change.type === FileChangeType.Deleted) {
+        cssVariableManager.clearFileCache(filePath);
+        return;
+      }
+
+      // open documents may have unsaved changes
+      const document = documents.get(change.uri);
+      if (document) {
+        await cssVariableManager.parseCSSVariablesFromText({
+          content: document.getText(),
+          filePath,
+          settings,
+        });
+        return;
       }
+
+      // the file may have been deleted since the event was sent
+      const file = await readFileContent(filePath);
+      if (!file) {
+        cssVariableManager.clearFileCache(filePath);
+        return;
+      }
+
+      await cssVariableManager.parseCSSVariablesFromText({
+        ...file,
+        filePath,
+        settings,
+      });
     })
   );
 
   // After all file changes are processed, resolve variable references
-  cssVariableManager.resolveVariableReferences();
+  changedIndexes.forEach((cssVariableManager) => {
+    cssVariableManager.resolveVariableReferences();
+  });
+
+  handleIndexChange();
+
+  for (const folderUri of changedFolders) {
+    await updateTypeDeclarations(folderUri);
+  }
 });
 
 // This handler provides the initial list of the completion items.
@@ -213,18 +954,136 @@ function isInMediaContext(document: TextDocument, offset: number): boolean {
   return offset <= closeIdx;
 }
 
+// Accepting a completion runs this command, recently accepted variables
+// rank higher
+const RECORD_COMPLETION_COMMAND = 'cssVariables.recordCompletion';
+const MAX_RECENT_COMPLETIONS = 20;
+const recentCompletions: string[] = [];
+
+connection.onExecuteCommand((params) => {
+  if (params.command !== RECORD_COMPLETION_COMMAND) {
+    return;
+  }
+
+  const [name] = params.arguments || [];
+  if (typeof name === 'string') {
+    const index = recentCompletions.indexOf(name);
+    if (index !== -1) {
+      recentCompletions.splice(index, 1);
+    }
+    recentCompletions.unshift(name);
+    recentCompletions.length = Math.min(recentCompletions.length, MAX_RECENT_COMPLETIONS);
+  }
+});
+
+/**
+ * Collects what completion items are ranked by once per request, so
+ * scoring each item stays cheap
+ */
+function getRankingContext(
+  cssVariableManager: CSSVariableManager,
+  doc: TextDocument,
+  offset: number
+): CompletionRankingContext {
+  const filePath = uriToPath(doc.uri);
+
+  return {
+    filePath,
+    reachableFiles: filePath ? cssVariableManager.getReachableFiles(filePath) : undefined,
+    valueKind: getValueKind(getCurrentProperty(doc.getText(), offset)),
+    usageCounts: cssVariableManager.getUsageCounts(),
+    recentNames: recentCompletions,
+    allVariables: cssVariableManager.getAll(),
+  };
+}
+
+function getPreprocessorCompletions(
+  cssVariableManager: CSSVariableManager,
+  document: TextDocument,
+  syntax: PreprocessorSyntax,
+  range: Range,
+  rankingContext: CompletionRankingContext
+): CompletionItem[] {
+  const mapModule = syntax === 'sass' ? getSassMapModule(document.getText()) : undefined;
+
+  return Array.from(cssVariableManager.getAllPreprocessorVariables(syntax).values()).map(
+    (variable) => {
+      // Sass map entries are indexed as `$map.key`
+      const [name, key] = variable.symbol.name.split('.');
+      const insertText = key ? `${mapModule.getFunction}(${name}, ${key})` : name;
+
+      // `map.get` is only available once the module is loaded
+      const additionalTextEdits = key && mapModule.useOffset !== undefined
+        ? [
+          TextEdit.insert(
+            document.positionAt(mapModule.useOffset),
+            mapModule.useOffset === 0 ? "@use 'sass:map';\n" : "\n@use 'sass:map';"
+          ),
+        ]
+        : undefined;
+
+      return {
+        label: variable.symbol.name,
+        detail: variable.symbol.value,
+        documentation: variable.symbol.value,
+        insertText,
+        filterText: variable.symbol.name,
+        textEdit: TextEdit.replace(range, insertText),
+        additionalTextEdits,
+        kind: variable.color ? CompletionItemKind.Color : CompletionItemKind.Variable,
+        sortText: toSortText(getCompletionScore(variable, rankingContext)),
+        command: {
+          title: '',
+          command: RECORD_COMPLETION_COMMAND,
+          arguments: [variable.symbol.name],
+        },
+      };
+    }
+  );
+}
+
+/**
+ * Marks the completion list as incomplete while the workspace is being
+ * indexed, so the client asks again as the user keeps typing
+ */
+function toCompletionResult(items: CompletionItem[]): CompletionItem[] | CompletionList {
+  return hasIndexedWorkspace ? items : CompletionList.create(items, true);
+}
+
 connection.onCompletion(
-  async (_textDocumentPosition: TextDocumentPositionParams): Promise<CompletionItem[]> => {
-    const settings = await getDocumentSettings();
+  async (
+    _textDocumentPosition: TextDocumentPositionParams
+  ): Promise<CompletionItem[] | CompletionList> => {
+    const settings = await getDocumentSettings(_textDocumentPosition.textDocument.uri);
     const doc = documents.get(_textDocumentPosition.textDocument.uri);
     if (!doc) {
       return [];
     }
 
+    const cssVariableManager = getVariableManager(doc.uri);
+
     const offset = doc.offsetAt(_textDocumentPosition.position);
     const wordInfo = getCurrentWordInfo(doc, offset);
     const currentWord = wordInfo.word;
 
+    const rankingContext = getRankingContext(cssVariableManager, doc, offset);
+
+    const preprocessorVariable = getPreprocessorVariableName(doc, currentWord.slice(1));
+    if (preprocessorVariable) {
+      return toCompletionResult(
+        getPreprocessorCompletions(
+          cssVariableManager,
+          doc,
+          preprocessorVariable.syntax,
+          {
+            start: doc.positionAt(wordInfo.left + 1),
+            end: doc.positionAt(wordInfo.right),
+          },
+          rankingContext
+        )
+      );
+    }
+
     const isFunctionCall = isInFunctionExpression(currentWord);
 
     const items: CompletionItem[] = [];
@@ -232,7 +1091,7 @@ connection.onCompletion(
 
     if (!mediaContext) {
       // in the normal case we show all CSS variable completions
-      cssVariableManager.getAll().forEach((variable) => {
+      getVisibleVariables(doc.uri, settings).forEach((variable) => {
         const varSymbol = variable.symbol;
         const insertText = isFunctionCall
           ? varSymbol.name
@@ -251,7 +1110,12 @@ connection.onCompletion(
           kind: isColor(varSymbol.value)
             ? CompletionItemKind.Color
             : CompletionItemKind.Variable,
-          sortText: 'z',
+          sortText: toSortText(getCompletionScore(variable, rankingContext)),
+          command: {
+            title: '',
+            command: RECORD_COMPLETION_COMMAND,
+            arguments: [varSymbol.name],
+          },
         };
 
         if (isColor(varSymbol.value)) {
@@ -259,6 +1123,20 @@ connection.onCompletion(
           completion.documentation = formatHex(varSymbol.value);
         }
 
+        const definitions = cssVariableManager.getDefinitions(varSymbol.name);
+        const registration = cssVariableManager.getPropertyRegistration(varSymbol.name);
+        if (definitions.length > 1 || registration) {
+          const documentation = ['```css', formatDefinitions(definitions), '```'];
+          if (registration) {
+            documentation.push('', formatPropertyRegistration(registration));
+          }
+
+          completion.documentation = {
+            kind: MarkupKind.Markdown,
+            value: documentation.join('\n'),
+          };
+        }
+
         if (isFunctionCall) {
           completion.detail = varSymbol.value;
         }
@@ -286,7 +1164,7 @@ connection.onCompletion(
       });
     }
 
-    return items;
+    return toCompletionResult(items);
   }
 );
 
@@ -296,12 +1174,17 @@ connection.onCompletionResolve((item: CompletionItem): CompletionItem => {
   return item;
 });
 
+const BUILTIN_COLOR_LANGUAGES = ['css', 'scss', 'less'];
+
+
 connection.onDocumentColor((params): ColorInformation[] => {
   const document = documents.get(params.textDocument.uri);
   if (!document) {
     return [];
   }
 
+  const cssVariableManager = getVariableManager(document.uri);
+
   const colors: ColorInformation[] = [];
 
   const text = document.getText();
@@ -336,17 +1219,72 @@ connection.onDocumentColor((params): ColorInformation[] => {
     }
   });
 
+  // usages of Sass and Less variables, declarations are skipped as their
+  // values already get a swatch from VS Code's built-in support
+  const syntax = getPreprocessorSyntax(document);
+  if (syntax) {
+    const preprocessorVariables = cssVariableManager.getAllPreprocessorVariables(syntax);
+    const prefix = escapeRegExp(PREPROCESSOR_PREFIXES[syntax]);
+
+    findAll(new RegExp(`${prefix}[\\w-]+(?![\\w-]|\\s*:)`, 'g'), text).forEach((match) => {
+      const variable = preprocessorVariables.get(match[0]);
+
+      if (variable?.color) {
+        colors.push({
+          color: variable.color,
+          range: {
+            start: document.positionAt(match.index),
+            end: document.positionAt(match.index + match[0].length),
+          },
+        });
+      }
+    });
+  }
+
+  // css, scss and less documents already get swatches for their
+  // declaration values from VS Code's built-in CSS support
+  const filePath = uriToPath(document.uri);
+  if (filePath && !BUILTIN_COLOR_LANGUAGES.includes(document.languageId)) {
+    cssVariableManager.getFileVariables(filePath).forEach((cssVariable) => {
+      if (
+        !cssVariable.color ||
+        cssVariable.isInitialValue ||
+        cssVariable.symbol.value.includes('var(')
+      ) {
+        return;
+      }
+
+      const value = findDeclarationValue(
+        text,
+        document.offsetAt(cssVariable.definition.range.start)
+      );
+
+      if (value) {
+        colors.push({
+          color: cssVariable.color,
+          range: {
+            start: document.positionAt(value.start),
+            end: document.positionAt(value.end),
+          },
+        });
+      }
+    });
+  }
+
   return colors;
 });
 
 connection.onHover(async (params) => {
-  const settings = await getDocumentSettings();
+  await waitForWorkspaceScan();
+  const settings = await getDocumentSettings(params.textDocument.uri);
   const doc = documents.get(params.textDocument.uri);
 
   if (!doc) {
     return null;
   }
 
+  const cssVariableManager = getVariableManager(doc.uri);
+
   const offset = doc.offsetAt(params.position);
   const currentWord = getCurrentWord(doc, offset);
 
@@ -354,11 +1292,42 @@ connection.onHover(async (params) => {
 
   const nornalizedWord = currentWord.slice(1);
 
+  const preprocessorVariable = getPreprocessorVariableName(doc, nornalizedWord);
+  if (preprocessorVariable) {
+    const { syntax, name } = preprocessorVariable;
+    const definitions = cssVariableManager.getPreprocessorDefinitions(syntax, name);
+
+    if (definitions.length === 0) {
+      return null;
+    }
+
+    return {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: ['```' + doc.languageId, formatDefinitions(definitions), '```'].join('\n'),
+      },
+    } as Hover;
+  }
+
   const cssVariable = cssVariableManager.getAll().get(nornalizedWord);
 
   if (cssVariable) {
+    if (!hasMarkdownHoverCapability) {
+      return {
+        contents: cssVariable.symbol.value,
+      } as Hover;
+    }
+
     return {
-      contents: cssVariable.symbol.value,
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: formatVariableHover(
+          cssVariable,
+          cssVariableManager.getDefinitions(nornalizedWord),
+          cssVariableManager.getAll(),
+          cssVariableManager.getPropertyRegistration(nornalizedWord)
+        ),
+      },
     } as Hover;
   }
 
@@ -372,35 +1341,56 @@ connection.onHover(async (params) => {
   return null;
 });
 
-connection.onColorPresentation((params) => {
+// Follows aliases such as `--button-bg: var(--brand-500)` to the variable
+// whose declaration holds the actual color
+connection.onColorPresentation((params): ColorPresentation[] => {
   const document = documents.get(params.textDocument.uri);
-
-  const className = document.getText(params.range);
-  if (!className) {
+  if (!document) {
     return [];
   }
 
-  return [];
+  const cssVariableManager = getVariableManager(document.uri);
+
+  // swatches of Sass and Less variables edit them like var() usages
+  const syntax = getPreprocessorSyntax(document);
+  const variables = syntax && document.getText(params.range).startsWith(PREPROCESSOR_PREFIXES[syntax])
+    ? cssVariableManager.getAllPreprocessorVariables(syntax)
+    : cssVariableManager.getAll();
+
+  return getVariableColorPresentations(document, params.range, params.color, variables);
 });
 
 connection.onDefinition(async (params) => {
-  const settings = await getDocumentSettings();
+  await waitForWorkspaceScan();
+  const settings = await getDocumentSettings(params.textDocument.uri);
   const doc = documents.get(params.textDocument.uri);
 
   if (!doc) {
     return null;
   }
 
+  const cssVariableManager = getVariableManager(doc.uri);
+
   const offset = doc.offsetAt(params.position);
   const currentWord = getCurrentWord(doc, offset);
 
   if (!currentWord) return null;
 
   const nornalizedWord = currentWord.slice(1);
+
+  const preprocessorVariable = getPreprocessorVariableName(doc, nornalizedWord);
+  if (preprocessorVariable) {
+    return cssVariableManager
+      .getPreprocessorDefinitions(preprocessorVariable.syntax, preprocessorVariable.name)
+      .map((definition) => definition.definition);
+  }
+
   const cssVariable = cssVariableManager.getAll().get(nornalizedWord);
 
   if (cssVariable) {
-    return cssVariable.definition;
+    return cssVariableManager
+      .getDefinitions(nornalizedWord)
+      .map((definition) => definition.definition);
   }
 
   if (settings.enableCustomMedia) {
@@ -413,6 +1403,318 @@ connection.onDefinition(async (params) => {
   return null;
 });
 
+connection.onReferences(async (params): Promise<Location[]> => {
+  await waitForWorkspaceScan();
+  const doc = documents.get(params.textDocument.uri);
+
+  if (!doc) {
+    return [];
+  }
+
+  const cssVariableManager = getVariableManager(doc.uri);
+
+  const offset = doc.offsetAt(params.position);
+  const currentWord = getCurrentWord(doc, offset);
+
+  if (!currentWord) return [];
+
+  const nornalizedWord = currentWord.slice(1);
+
+  if (!nornalizedWord.startsWith('--')) {
+    return [];
+  }
+
+  const locations = cssVariableManager.getUsages(nornalizedWord);
+
+  if (params.context.includeDeclaration) {
+    const definitions = cssVariableManager
+      .getDefinitions(nornalizedWord)
+      .map((definition) => definition.definition);
+    locations.unshift(...definitions);
+  }
+
+  return locations;
+});
+
+// Returns the variable name under the cursor together with its range, the
+// word delimiter in front of the name is not part of the range
+function getVariableNameAt(doc: TextDocument, position: Position) {
+  const wordInfo = getCurrentWordInfo(doc, doc.offsetAt(position));
+  const name = wordInfo.word.slice(1);
+
+  if (!name.startsWith('--')) {
+    return null;
+  }
+
+  return {
+    name,
+    range: {
+      start: doc.positionAt(wordInfo.left + 1),
+      end: doc.positionAt(wordInfo.right),
+    },
+  };
+}
+
+connection.onPrepareRename((params) => {
+  const doc = documents.get(params.textDocument.uri);
+
+  if (!doc) {
+    return null;
+  }
+
+  const cssVariableManager = getVariableManager(doc.uri);
+
+  const variable = getVariableNameAt(doc, params.position);
+
+  if (
+    !variable ||
+    (!cssVariableManager.getAll().has(variable.name) &&
+      cssVariableManager.getUsages(variable.name).length === 0)
+  ) {
+    return null;
+  }
+
+  return { range: variable.range, placeholder: variable.name };
+});
+
+connection.onRenameRequest(async (params) => {
+  await waitForWorkspaceScan();
+  const doc = documents.get(params.textDocument.uri);
+
+  if (!doc) {
+    return null;
+  }
+
+  const variable = getVariableNameAt(doc, params.position);
+
+  if (!variable) {
+    return null;
+  }
+
+  const folderUri = getWorkspaceFolder(doc.uri);
+  const folderPath = folderUri && uriToPath(folderUri);
+  const openContents = new Map(
+    documents.all().map((document) => [uriToPath(document.uri), document.getText()])
+  );
+
+  return renameVariable({
+    cssVariableManager: getVariableManager(doc.uri),
+    name: variable.name,
+    newName: params.newName,
+    folderPaths: folderPath ? [folderPath] : [],
+    settings: await getDocumentSettings(doc.uri),
+    getOpenContent: (filePath) => openContents.get(filePath),
+  });
+});
+
+connection.languages.inlayHint.on(async (params): Promise<InlayHint[]> => {
+  const settings = await getDocumentSettings(params.textDocument.uri);
+  const doc = documents.get(params.textDocument.uri);
+
+  if (!doc || !settings.inlayHints || settings.inlayHints === 'off') {
+    return [];
+  }
+
+  const cssVariableManager = getVariableManager(doc.uri);
+
+  const rangeStart = doc.offsetAt(params.range.start);
+  const rangeEnd = doc.offsetAt(params.range.end);
+  const allVariables = cssVariableManager.getAll();
+  const hints: InlayHint[] = [];
+
+  findVariableUsages(doc.getText()).forEach((usage) => {
+    if (usage.callEnd < rangeStart || usage.start > rangeEnd) {
+      return;
+    }
+
+    const cssVariable = allVariables.get(usage.name);
+    if (!cssVariable) {
+      return;
+    }
+
+    const resolvedValue = resolveVariableValue(cssVariable.symbol.value, allVariables);
+    if (resolvedValue.includes('var(')) {
+      return;
+    }
+
+    if (
+      (settings.inlayHints === 'colors' && !cssVariable.color) ||
+      (settings.inlayHints === 'lengths' && !isLength(resolvedValue))
+    ) {
+      return;
+    }
+
+    hints.push({
+      position: doc.positionAt(usage.callEnd),
+      label: resolvedValue,
+      paddingLeft: true,
+    });
+  });
+
+  return hints;
+});
+
+connection.onDocumentSymbol((params): DocumentSymbol[] => {
+  const filePath = uriToPath(params.textDocument.uri);
+
+  if (!filePath) {
+    return [];
+  }
+
+  const cssVariableManager = getVariableManager(params.textDocument.uri);
+
+  const symbols: DocumentSymbol[] = [];
+  // variables declared under the same selector and at-rules share a parent
+  const groups: Map<string, DocumentSymbol> = new Map();
+
+  cssVariableManager.getFileVariables(filePath).forEach((cssVariable) => {
+    const { range } = cssVariable.definition;
+    const symbol = DocumentSymbol.create(
+      cssVariable.symbol.name,
+      cssVariable.symbol.value,
+      cssVariable.color ? SymbolKind.Constant : SymbolKind.Variable,
+      range,
+      range
+    );
+
+    if (!cssVariable.selector) {
+      symbols.push(symbol);
+      return;
+    }
+
+    const atRules = (cssVariable.atRules || []).join(' ');
+    const key = `${atRules} ${cssVariable.selector}`;
+    let group = groups.get(key);
+
+    if (!group) {
+      group = DocumentSymbol.create(
+        cssVariable.selector,
+        atRules || undefined,
+        SymbolKind.Class,
+        range,
+        range,
+        []
+      );
+      groups.set(key, group);
+      symbols.push(group);
+    }
+
+    group.children.push(symbol);
+    // the group spans all of its variables
+    if (comparePositions(range.start, group.range.start) < 0) {
+      group.range = Range.create(range.start, group.range.end);
+    }
+    if (comparePositions(range.end, group.range.end) > 0) {
+      group.range = Range.create(group.range.start, range.end);
+    }
+  });
+
+  cssVariableManager.getFileCustomMedia(filePath).forEach((cm) => {
+    const { range } = cm.definition;
+    symbols.push(
+      DocumentSymbol.create(cm.name, cm.params, SymbolKind.Interface, range, range)
+    );
+  });
+
+  return symbols;
+});
+
+function comparePositions(a: Position, b: Position): number {
+  return a.line === b.line ? a.character - b.character : a.line - b.line;
+}
+
+connection.onWorkspaceSymbol((params): SymbolInformation[] => {
+  const symbols: SymbolInformation[] = [];
+
+  getAllVariableManagers().forEach((cssVariableManager) => {
+    cssVariableManager.getAllDefinitions().forEach((cssVariable) => {
+      if (fuzzyMatch(params.query, cssVariable.symbol.name)) {
+        symbols.push(
+          SymbolInformation.create(
+            cssVariable.symbol.name,
+            cssVariable.color ? SymbolKind.Constant : SymbolKind.Variable,
+            cssVariable.definition.range,
+            cssVariable.definition.uri,
+            cssVariable.selector
+          )
+        );
+      }
+    });
+
+    cssVariableManager.getAllCustomMedia().forEach((cm) => {
+      if (fuzzyMatch(params.query, cm.name)) {
+        symbols.push(
+          SymbolInformation.create(
+            cm.name,
+            SymbolKind.Interface,
+            cm.definition.range,
+            cm.definition.uri,
+            '@custom-media'
+          )
+        );
+      }
+    });
+  });
+
+  return symbols;
+});
+
+// Lists the selectors variables are declared under, used by the client
+// to pick the active theme
+connection.onRequest('cssVariables/themes', () => {
+  const selectors = new Set(
+    getAllVariableManagers().flatMap((cssVariableManager) => cssVariableManager.getSelectors())
+  );
+  return Array.from(selectors).sort();
+});
+
+// Lists every variable that is never used through `var()`, so they can be
+// cleaned up in bulk from the client
+connection.onRequest('cssVariables/unusedVariables', () => {
+  return getAllVariableManagers().flatMap((cssVariableManager) =>
+    cssVariableManager.getUnusedVariables().map((cssVariable) => ({
+      name: cssVariable.symbol.name,
+      value: cssVariable.symbol.value,
+      location: cssVariable.definition,
+    }))
+  );
+});
+
+// Writes the TypeScript declarations of every workspace folder, to the
+// configured file or a default one, and returns the written paths
+connection.onRequest('cssVariables/generateTypeDeclarations', async () => {
+  await waitForWorkspaceScan();
+
+  const outputPaths: string[] = [];
+  for (const folderUri of Array.from(folderIndexes.keys())) {
+    const settings = await getDocumentSettings(folderUri);
+    const outputPath = await generateFolderTypeDeclarations(
+      folderUri,
+      settings.typeDeclarationsFile || DEFAULT_TYPE_DECLARATIONS_FILE
+    );
+    if (outputPath) {
+      outputPaths.push(outputPath);
+    }
+  }
+
+  return outputPaths;
+});
+
+// Keep the changes made since the workspace was indexed for the next run
+connection.onShutdown(async () => {
+  const openFiles = getOpenFiles();
+
+  for (const [folderUri, cssVariableManager] of folderIndexes) {
+    // the index of an unfinished scan is incomplete
+    if (!runningScans.has(folderUri)) {
+      await cssVariableManager.saveIndexCache(openFiles);
+    }
+  }
+
+  runningScans.forEach((tokenSource) => tokenSource.cancel());
+  workerPool?.terminate();
+});
+
 // Make the text document manager listen on the connection
 // for open, change and close text document events
 documents.listen(connection);
@@ -0,0 +1,29 @@
+import { parentPort } from 'worker_threads';
+import CSSVariableManager from './CSSVariableManager';
+import { readFileContent } from './utils/readFileContent';
+import type { IndexWorkerResult, IndexWorkerTask } from './IndexWorkerPool';
+
+/**
+ * Parses the files sent by the IndexWorkerPool, one at a time, and sends
+ * back their snapshots. Imports are left to the pool's owner, which knows
+ * the files that are already indexed
+ */
+parentPort?.on('message', async ({ id, filePath, settings }: IndexWorkerTask) => {
+  let result: IndexWorkerResult;
+
+  try {
+    const file = await readFileContent(filePath);
+    if (!file) {
+      throw new Error(`cannot read file ${filePath}`);
+    }
+
+    const cssVariableManager = new CSSVariableManager({ followImports: false });
+    await cssVariableManager.parseCSSVariablesFromText({ ...file, filePath, settings });
+
+    result = { id, snapshot: cssVariableManager.getFileSnapshot(filePath) };
+  } catch (error) {
+    result = { id, error: String(error) };
+  }
+
+  parentPort?.postMessage(result);
+});
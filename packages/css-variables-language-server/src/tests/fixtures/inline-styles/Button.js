@@ -0,0 +1,10 @@
+import styled, { css } from 'styled-components';
+
+export const Button = styled.button`
+  --button-color: ${(props) => props.color};
+  --button-radius: 4px;
+
+  border-radius: var(--button-radius);
+`;
+
+export const focusRing = css`--focus-ring: 0 0 0 2px #0000ff;`;
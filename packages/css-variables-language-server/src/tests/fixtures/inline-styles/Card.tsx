@@ -0,0 +1,7 @@
+export function Card({ children }) {
+  return (
+    <div className="card" style={{ '--card-gap': '8px', '--card-columns': 3 }}>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+export const Button = () => (
+  <button style={{ '--brand': 'blue', color: 'var(--brand)' }} />
+);
+
+export const highlight = (element: HTMLElement) => {
+  // --brand is left alone in comments
+  element.style.setProperty('--brand', 'red');
+  return element.style.getPropertyValue('--brand-new');
+};
@@ -1,5 +1,8 @@
 import CSSVariableManager, { CSSVariable, defaultSettings } from '../../CSSVariableManager';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { CancellationTokenSource } from 'vscode-languageserver/node';
 
 async function runTest(
   fixturePath: string,
@@ -222,4 +225,373 @@ describe('CSS Variable Manager', () => {
     expect(allMedia.get('--small-viewport').params).toEqual('(max-width: 30em)');
     expect(allMedia.get('--dark-theme').params).toEqual('(prefers-color-scheme: dark)');
   });
+
+  test('indexes var() usages across files', async () => {
+    const cssManager = new CSSVariableManager();
+    const fixturePath = path.join(__dirname, '../fixtures/nested-var-resolution');
+
+    await cssManager.parseAndSyncVariables([fixturePath]);
+
+    const usages = cssManager.getUsages('--color-red');
+    expect(usages).toHaveLength(2);
+
+    const mainUsage = usages.find((usage) => usage.uri.endsWith('/main.css'));
+    expect(mainUsage.range.start).toEqual({ line: 7, character: 25 });
+    expect(mainUsage.range.end).toEqual({ line: 7, character: 36 });
+
+    cssManager.clearFileCache(path.join(fixturePath, 'child/child.css'));
+    expect(cssManager.getUsages('--color-red')).toHaveLength(1);
+  });
+
+  test('lists variables that are never used', async () => {
+    const cssManager = new CSSVariableManager();
+
+    await cssManager.parseAndSyncVariables([
+      path.join(__dirname, '../fixtures/nested-var-resolution'),
+    ]);
+
+    const unused = cssManager.getUnusedVariables().map((cssVariable) => cssVariable.symbol.name);
+    expect(unused).toContain('--spacing');
+    expect(unused).toContain('--child-nested');
+    expect(unused).not.toContain('--color-red');
+    expect(cssManager.getUsageCounts().get('--color-red')).toEqual(2);
+  });
+
+  test('keeps every definition of a variable with its context', async () => {
+    const cssManager = new CSSVariableManager();
+    const fixturePath = path.join(__dirname, '../fixtures/multiple-definitions');
+
+    await cssManager.parseAndSyncVariables([fixturePath]);
+
+    const definitions = cssManager.getDefinitions('--bg');
+    expect(definitions).toHaveLength(3);
+
+    const contexts = definitions.map((definition) => ({
+      value: definition.symbol.value,
+      selector: definition.selector,
+      atRules: definition.atRules,
+    }));
+    expect(contexts).toEqual(expect.arrayContaining([
+      { value: '#ffffff', selector: ':root', atRules: [] },
+      { value: '#ffff00', selector: '[data-theme=contrast]', atRules: ['@media (prefers-contrast: more)'] },
+      { value: '#000000', selector: '.app.dark', atRules: ['@layer themes'] },
+    ]));
+
+    // removing one file keeps the definitions of the other files
+    cssManager.clearFileCache(path.join(fixturePath, 'themes/dark.scss'));
+    expect(cssManager.getDefinitions('--bg')).toHaveLength(2);
+    expect(cssManager.getAll().get('--bg')).toBeDefined();
+    expect(cssManager.getAll().get('--text').symbol.value).toEqual('#111111');
+  });
+
+  test('prefers the definitions of the active theme', async () => {
+    const cssManager = new CSSVariableManager();
+    const fixturePath = path.join(__dirname, '../fixtures/multiple-definitions');
+
+    await cssManager.parseAndSyncVariables([fixturePath]);
+
+    // falls back to :root
+    expect(cssManager.getAll().get('--bg').symbol.value).toEqual('#ffffff');
+    expect(cssManager.getAll().get('--surface').color).toEqual({ red: 1, green: 1, blue: 1, alpha: 1 });
+
+    cssManager.setActiveTheme('.dark');
+    cssManager.resolveVariableReferences();
+    expect(cssManager.getAll().get('--bg').symbol.value).toEqual('#000000');
+    expect(cssManager.getAll().get('--surface').color).toEqual({ red: 0, green: 0, blue: 0, alpha: 1 });
+
+    await cssManager.parseAndSyncVariables([fixturePath], {
+      ...defaultSettings,
+      activeTheme: '[data-theme=contrast]',
+    });
+    expect(cssManager.getAll().get('--bg').symbol.value).toEqual('#ffff00');
+
+    expect(cssManager.getSelectors()).toEqual(['.app.dark', ':root', '[data-theme=contrast]']);
+  });
+
+  test('only takes selectors with the theme on the element itself as theme definitions', async () => {
+    const cssManager = new CSSVariableManager();
+    const fixturePath = path.join(__dirname, '../fixtures/theme-selectors');
+
+    await cssManager.parseAndSyncVariables([fixturePath], {
+      ...defaultSettings,
+      activeTheme: '.dark',
+    });
+
+    // `.dark .card` is declared last but only applies inside the theme
+    expect(cssManager.getAll().get('--bg').symbol.value).toEqual('#000000');
+    expect(cssManager.getAll().get('--text').symbol.value).toEqual('#000000');
+
+    cssManager.setActiveTheme('[data-theme="high contrast"]');
+    cssManager.resolveVariableReferences();
+    expect(cssManager.getAll().get('--text').symbol.value).toEqual('#ffff00');
+  });
+
+  test('indexes Sass and Less variables separately', async () => {
+    const cssManager = new CSSVariableManager();
+
+    await cssManager.parseAndSyncVariables([
+      path.join(__dirname, '../fixtures/preprocessor-variables'),
+    ]);
+
+    const sassVars = cssManager.getAllPreprocessorVariables('sass');
+    expect(sassVars.get('$brand').symbol.value).toEqual('#ff0000');
+    expect(sassVars.get('$link').color).toEqual(sassVars.get('$brand').color);
+    expect(sassVars.get('$theme.primary').symbol.value).toEqual('$brand');
+    expect(sassVars.get('$theme.primary').color).toEqual(sassVars.get('$brand').color);
+    expect(sassVars.get('$theme.secondary').definition.range.start).toEqual({ line: 4, character: 2 });
+    // the range of a quoted key starts after its quote
+    expect(sassVars.get('$theme.primary').definition.range).toEqual({
+      start: { line: 3, character: 3 },
+      end: { line: 3, character: 10 },
+    });
+    expect(sassVars.get('$spacing.small').symbol.value).toEqual('4px');
+    expect(sassVars.has('@brand-color')).toBe(false);
+
+    const lessVars = cssManager.getAllPreprocessorVariables('less');
+    expect(lessVars.get('@brand-color').symbol.value).toEqual('#0000ff');
+    expect(lessVars.get('@link-color').color).toEqual(lessVars.get('@brand-color').color);
+    expect(lessVars.has('@media')).toBe(false);
+
+    // preprocessor variables are not custom properties
+    expect(cssManager.getAll().has('$brand')).toBe(false);
+    expect(cssManager.getAll().has('--card-bg')).toBe(true);
+  });
+
+  test('indexes @property registrations', async () => {
+    const cssManager = new CSSVariableManager();
+
+    await cssManager.parseAndSyncVariables([
+      path.join(__dirname, '../fixtures/property-registrations'),
+    ]);
+
+    const angle = cssManager.getPropertyRegistration('--angle');
+    expect(angle).toMatchObject({ syntax: '<angle>', inherits: false, initialValue: '0deg' });
+    expect(angle.definition.range.start).toEqual({ line: 0, character: 10 });
+
+    // the initial value is used when there is no other declaration
+    expect(cssManager.getAll().get('--angle').symbol.value).toEqual('0deg');
+    expect(cssManager.getAll().get('--accent').symbol.value).toEqual('#0000ff');
+    expect(cssManager.getDefinitions('--accent')).toHaveLength(2);
+  });
+
+  test('can parse variables from design token files', async () => {
+    const cssManager = new CSSVariableManager();
+    const fixturePath = path.join(__dirname, '../fixtures/design-tokens');
+
+    await cssManager.parseAndSyncVariables([fixturePath], {
+      ...defaultSettings,
+      lookupFiles: ['**/*.json'],
+    });
+
+    const allVars = cssManager.getAll();
+    expect(allVars.get('--color-brand-500').symbol.value).toEqual('#ff0000');
+    expect(allVars.get('--color-brand-primary').symbol.value).toEqual('var(--color-brand-500)');
+    expect(allVars.get('--color-brand-primary').color).toEqual(allVars.get('--color-brand-500').color);
+    expect(allVars.get('--spacing-small').symbol.value).toEqual('4px');
+    expect(allVars.get('--font-family').symbol.value).toEqual('Inter, sans-serif');
+    expect(allVars.get('--size-radius-base').symbol.value).toEqual('8px');
+
+    // go to definition lands on the token key
+    const definition = allVars.get('--color-brand-500').definition;
+    expect(definition.uri.endsWith('/tokens.json')).toBe(true);
+    expect(definition.range.start).toEqual({ line: 4, character: 6 });
+
+    await cssManager.parseAndSyncVariables([fixturePath], {
+      ...defaultSettings,
+      lookupFiles: ['**/tokens.json'],
+      tokenPrefix: 'ds',
+      tokenSeparator: '_',
+    });
+    expect(cssManager.getAll().get('--ds_color_brand_primary').symbol.value).toEqual('var(--ds_color_brand_500)');
+  });
+
+  test('can parse variables from style blocks of component files', async () => {
+    const cssManager = new CSSVariableManager();
+
+    await cssManager.parseAndSyncVariables([
+      path.join(__dirname, '../fixtures/component-styles'),
+    ], {
+      ...defaultSettings,
+      lookupFiles: ['**/*.vue', '**/*.svelte', '**/*.astro', '**/*.html'],
+    });
+
+    const allVars = cssManager.getAll();
+    expect(allVars.get('--button-color').color).toBeDefined();
+    expect(allVars.get('--button-radius').selector).toEqual('.button');
+    expect(allVars.get('--card-padding').symbol.value).toEqual('16px');
+    expect(allVars.get('--layout-width').symbol.value).toEqual('960px');
+    expect(allVars.get('--page-background').symbol.value).toEqual('white');
+    // only blocks postcss can parse are indexed
+    expect(allVars.has('--ignored')).toBe(false);
+    // scss blocks also provide Sass variables
+    expect(cssManager.getAllPreprocessorVariables('sass').get('$radius').symbol.value).toEqual('4px');
+
+    // ranges point into the component file
+    expect(allVars.get('--button-radius').definition.range.start).toEqual({ line: 8, character: 2 });
+    expect(allVars.get('--card-padding').definition.range.start).toEqual({ line: 8, character: 4 });
+    expect(allVars.get('--layout-width').definition.range.start).toEqual({ line: 5, character: 10 });
+    expect(allVars.get('--page-background').definition.range.start).toEqual({ line: 5, character: 8 });
+  });
+
+  test('can parse variables from inline styles and CSS-in-JS', async () => {
+    const cssManager = new CSSVariableManager();
+
+    await cssManager.parseAndSyncVariables([
+      path.join(__dirname, '../fixtures/inline-styles'),
+    ], {
+      ...defaultSettings,
+      lookupFiles: ['**/*.tsx', '**/*.js', '**/*.html'],
+    });
+
+    const allVars = cssManager.getAll();
+    expect(allVars.get('--card-gap').symbol.value).toEqual('8px');
+    expect(allVars.get('--card-columns').symbol.value).toEqual('3');
+    expect(allVars.get('--button-radius').symbol.value).toEqual('4px');
+    expect(allVars.has('--button-color')).toBe(true);
+    expect(allVars.get('--focus-ring').color).toBeUndefined();
+    expect(allVars.get('--page-accent').color).toBeDefined();
+    expect(allVars.get('--page-accent').selector).toBeUndefined();
+
+    expect(allVars.get('--card-gap').definition.range.start).toEqual({ line: 2, character: 36 });
+    expect(allVars.get('--button-radius').definition.range.start).toEqual({ line: 4, character: 2 });
+    expect(allVars.get('--page-accent').definition.range.start).toEqual({ line: 2, character: 15 });
+  });
+
+  test('follows local and package imports', async () => {
+    const cssManager = new CSSVariableManager();
+    const fixturePath = path.join(__dirname, '../fixtures/imports');
+
+    await cssManager.parseAndSyncVariables([fixturePath], {
+      ...defaultSettings,
+      lookupFiles: ['src/main.scss'],
+    });
+
+    const allVars = cssManager.getAll();
+    expect(allVars.get('--brand').symbol.value).toEqual('#ff0000');
+    expect(allVars.get('--main').color).toEqual(allVars.get('--brand').color);
+    expect(allVars.get('--theme-spacing').symbol.value).toEqual('4px');
+    expect(allVars.get('--cycle').symbol.value).toEqual('1px');
+    // packages in node_modules are indexed although the folder is blacklisted
+    expect(allVars.get('--lib-color').symbol.value).toEqual('#0000ff');
+    expect(allVars.get('--size-1').symbol.value).toEqual('.25rem');
+    expect(allVars.get('--surface').selector).toEqual('.dark');
+
+    const mainPath = path.join(fixturePath, 'src/main.scss');
+    expect(cssManager.getImports(mainPath).map((file) => path.relative(fixturePath, file))).toEqual([
+      path.join('src', '_theme.scss'),
+      path.join('src', 'tokens.css'),
+      path.join('node_modules', 'design-lib', 'css', 'lib.css'),
+      path.join('node_modules', 'open-props', 'open-props.min.css'),
+      path.join('node_modules', '@scope', 'theme-pack', 'themes', 'dark.css'),
+    ]);
+    expect(cssManager.getImports(path.join(fixturePath, 'src/cycle.css'))).toEqual([
+      path.join(fixturePath, 'src/tokens.css'),
+    ]);
+  });
+
+  test('parses files imported by other lookup files only once', async () => {
+    const cssManager = new CSSVariableManager();
+    const fixturePath = path.join(__dirname, '../fixtures/imports');
+
+    await cssManager.parseAndSyncVariables([fixturePath]);
+
+    expect(cssManager.getDefinitions('--cycle')).toHaveLength(1);
+    expect(cssManager.getDefinitions('--brand')).toHaveLength(1);
+    expect(cssManager.getDefinitions('--theme-spacing')).toHaveLength(1);
+  });
+
+  test('does not parse lookup files again once they were indexed as an import', async () => {
+    const workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'css-variables-'));
+    fs.mkdirSync(path.join(workspacePath, 'lib'));
+    fs.writeFileSync(path.join(workspacePath, 'main.css'), "@import './lib/tokens.css';");
+    fs.writeFileSync(path.join(workspacePath, 'lib', 'tokens.css'), ':root { --brand: red; }');
+    // keeps the imported file from being reached before the import is done
+    for (let i = 0; i < 20; i++) {
+      fs.writeFileSync(path.join(workspacePath, `page-${i}.css`), `:root { --page-${i}: 1px; }`);
+    }
+
+    const cssManager = new CSSVariableManager();
+    const parse = jest.spyOn(cssManager, 'parseCSSVariablesFromText');
+    try {
+      await cssManager.parseAndSyncVariables([workspacePath]);
+    } finally {
+      fs.rmSync(workspacePath, { recursive: true, force: true });
+    }
+
+    const parseCounts: Map<string, number> = new Map();
+    parse.mock.calls.forEach(([{ filePath }]) => {
+      parseCounts.set(filePath, (parseCounts.get(filePath) || 0) + 1);
+    });
+    expect(parseCounts.size).toBe(22);
+    expect(Array.from(parseCounts.values()).every((count) => count === 1)).toBe(true);
+  });
+
+  test('returns the variables reachable from a file', async () => {
+    const cssManager = new CSSVariableManager();
+    const fixturePath = path.join(__dirname, '../fixtures/reachable-variables');
+
+    await cssManager.parseAndSyncVariables([fixturePath], {
+      ...defaultSettings,
+      lookupFiles: ['app-*/**/*.css'],
+      globalStylesheets: ['styles/*.css'],
+    });
+
+    // global stylesheets are indexed although lookupFiles does not match them
+    expect(cssManager.getAll().has('--global-font')).toBe(true);
+
+    const reachable = cssManager.getReachableVariables(path.join(fixturePath, 'app-a/main.css'));
+    expect(Array.from(reachable.keys()).sort()).toEqual(['--a-color', '--global-font']);
+    expect(reachable.get('--a-color').symbol.value).toEqual('#ff0000');
+
+    const other = cssManager.getReachableVariables(path.join(fixturePath, 'app-b/main.css'));
+    expect(other.get('--a-color').symbol.value).toEqual('#00ff00');
+    expect(other.has('--global-font')).toBe(true);
+  });
+
+  test('reports the number of indexed files', async () => {
+    const cssManager = new CSSVariableManager();
+    const fixturePath = path.join(__dirname, '../fixtures/reachable-variables');
+    const progress: [number, number][] = [];
+
+    await cssManager.parseAndSyncVariables(
+      [fixturePath],
+      {
+        ...defaultSettings,
+        lookupFiles: ['app-*/**/*.css'],
+        globalStylesheets: ['styles/*.css'],
+      },
+      { onProgress: (indexed, total) => progress.push([indexed, total]) }
+    );
+
+    expect(progress).toEqual([[0, 4], [1, 4], [2, 4], [3, 4], [4, 4]]);
+  });
+
+  test('stops indexing when the scan is cancelled', async () => {
+    const cssManager = new CSSVariableManager();
+    const tokenSource = new CancellationTokenSource();
+    tokenSource.cancel();
+
+    await cssManager.parseAndSyncVariables(
+      [path.join(__dirname, '../fixtures/css-nested')],
+      defaultSettings,
+      { token: tokenSource.token }
+    );
+
+    expect(cssManager.getAll().size).toBe(0);
+  });
+
+  test('records but does not index imports when told not to follow them', async () => {
+    const cssManager = new CSSVariableManager({ followImports: false });
+    const fixturePath = path.join(__dirname, '../fixtures/imports');
+    const mainPath = path.join(fixturePath, 'src/main.scss');
+
+    await cssManager.parseAndSyncVariables([fixturePath], {
+      ...defaultSettings,
+      lookupFiles: ['src/main.scss'],
+    });
+
+    expect(cssManager.isIndexedFile(mainPath)).toBe(true);
+    expect(cssManager.isIndexedFile(path.join(fixturePath, 'src/tokens.css'))).toBe(false);
+    expect(cssManager.getImports(mainPath)).toHaveLength(5);
+  });
 });
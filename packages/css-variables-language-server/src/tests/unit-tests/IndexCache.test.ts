@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import path from 'path';
+import CSSVariableManager, { defaultSettings } from '../../CSSVariableManager';
+import IndexCache from '../../IndexCache';
+
+describe('IndexCache', () => {
+  let workspacePath: string;
+  let cachePath: string;
+  const settings = { ...defaultSettings, lookupFiles: ['*.css'] };
+
+  const indexWorkspace = async (indexSettings = settings) => {
+    const cssManager = new CSSVariableManager();
+    const parse = jest.spyOn(cssManager, 'parseCSSVariablesFromText');
+    const indexCache = new IndexCache(cachePath, IndexCache.getFingerprint(indexSettings));
+    indexCache.load();
+
+    await cssManager.parseAndSyncVariables([workspacePath], indexSettings, { indexCache });
+    await cssManager.saveIndexCache();
+
+    return {
+      cssManager,
+      parsedFiles: parse.mock.calls.map(([{ filePath }]) => path.basename(filePath)).sort(),
+    };
+  };
+
+  beforeEach(() => {
+    workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'css-variables-'));
+    cachePath = path.join(workspacePath, '.cache', 'index.json');
+
+    fs.mkdirSync(path.join(workspacePath, 'lib'));
+    fs.writeFileSync(path.join(workspacePath, 'a.css'), ':root { --a: #ff0000; }');
+    fs.writeFileSync(
+      path.join(workspacePath, 'b.css'),
+      "@import './lib/c.css';\n:root { --b: var(--a); }"
+    );
+    fs.writeFileSync(path.join(workspacePath, 'lib', 'c.css'), ':root { --c: 1px; }');
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  it('should only parse the files that changed since the last run', async () => {
+    const firstRun = await indexWorkspace();
+    expect(firstRun.parsedFiles).toEqual(['a.css', 'b.css', 'c.css']);
+
+    const aPath = path.join(workspacePath, 'a.css');
+    const later = new Date(fs.statSync(aPath).mtime.getTime() + 1000);
+    fs.writeFileSync(aPath, ':root { --a: #0000ff; }');
+    fs.utimesSync(aPath, later, later);
+    // touched files whose content is the same are restored
+    fs.utimesSync(path.join(workspacePath, 'lib', 'c.css'), later, later);
+
+    const secondRun = await indexWorkspace();
+    expect(secondRun.parsedFiles).toEqual(['a.css']);
+
+    const allVars = secondRun.cssManager.getAll();
+    expect(allVars.get('--a').symbol.value).toEqual('#0000ff');
+    expect(allVars.get('--b').color).toEqual(allVars.get('--a').color);
+    // imported files are restored as well
+    expect(allVars.get('--c').symbol.value).toEqual('1px');
+    expect(secondRun.cssManager.getUsages('--a')).toHaveLength(1);
+  });
+
+  it('should not cache files that changed after they were parsed', async () => {
+    const cssManager = new CSSVariableManager();
+    const indexCache = new IndexCache(cachePath, IndexCache.getFingerprint(settings));
+    await cssManager.parseAndSyncVariables([workspacePath], settings, { indexCache });
+
+    fs.writeFileSync(path.join(workspacePath, 'a.css'), ':root { --a: #0000ff; }');
+    await cssManager.saveIndexCache();
+
+    const { cssManager: nextManager, parsedFiles } = await indexWorkspace();
+    expect(parsedFiles).toEqual(['a.css']);
+    expect(nextManager.getAll().get('--a').symbol.value).toEqual('#0000ff');
+  });
+
+  it('should cache the modification time the files were read with', async () => {
+    const aPath = path.join(workspacePath, 'a.css');
+    const readTime = fs.statSync(aPath).mtimeMs;
+
+    const cssManager = new CSSVariableManager();
+    const indexCache = new IndexCache(cachePath, IndexCache.getFingerprint(settings));
+    await cssManager.parseAndSyncVariables([workspacePath], settings, { indexCache });
+
+    const later = new Date(readTime + 1000);
+    fs.writeFileSync(aPath, ':root { --a: #0000ff; }');
+    fs.utimesSync(aPath, later, later);
+    await cssManager.saveIndexCache();
+
+    const cachedFiles = JSON.parse(fs.readFileSync(cachePath, 'utf8')).files;
+    expect(cachedFiles[aPath].mtime).toEqual(readTime);
+  });
+
+  it('should drop deleted files', async () => {
+    await indexWorkspace();
+    fs.unlinkSync(path.join(workspacePath, 'b.css'));
+
+    const { cssManager, parsedFiles } = await indexWorkspace();
+    expect(parsedFiles).toEqual([]);
+    expect(cssManager.getAll().has('--b')).toBe(false);
+    expect(cssManager.getAll().has('--c')).toBe(false);
+
+    const cachedFiles = Object.keys(JSON.parse(fs.readFileSync(cachePath, 'utf8')).files);
+    expect(cachedFiles).toEqual([path.join(workspacePath, 'a.css')]);
+  });
+
+  it('should parse everything again when the settings change', async () => {
+    await indexWorkspace();
+
+    const { parsedFiles } = await indexWorkspace({ ...settings, enableCustomMedia: true });
+    expect(parsedFiles).toEqual(['a.css', 'b.css', 'c.css']);
+  });
+});
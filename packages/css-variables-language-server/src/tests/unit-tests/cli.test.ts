@@ -0,0 +1,138 @@
+import path from 'path';
+import { loadSettings, runCli } from '../../cli';
+
+describe('cli', () => {
+  const fixturePath = path.join(__dirname, '../fixtures/cli');
+
+  const run = async (args: string[]) => {
+    let stdout = '';
+    let stderr = '';
+    const exitCode = await runCli(args, {
+      stdout: (text) => { stdout += text; },
+      stderr: (text) => { stderr += text; },
+    });
+
+    return { exitCode, stdout, stderr };
+  };
+
+  test('reads the settings of the folder', () => {
+    expect(loadSettings(fixturePath).lookupFiles).toEqual(['styles/**/*.css']);
+    expect(loadSettings(fixturePath, { lookupFiles: ['**/*.css'] }).lookupFiles).toEqual(['**/*.css']);
+  });
+
+  test('lists the variables of a folder as json', async () => {
+    const { exitCode, stdout } = await run(['list', '--json', fixturePath]);
+
+    expect(exitCode).toBe(0);
+    const records = JSON.parse(stdout);
+    expect(records.map((record: { name: string }) => record.name)).toEqual([
+      '--accent',
+      '--brand',
+      '--brand',
+      '--font',
+    ]);
+    expect(records[0]).toEqual({
+      name: '--accent',
+      value: 'var(--brand)',
+      resolvedValue: '#ff0000',
+      color: '#ff0000',
+      selector: ':root',
+      file: 'styles/theme.css',
+      line: 3,
+      column: 3,
+    });
+  });
+
+  test('exports the variables as csv and markdown', async () => {
+    const csv = await run(['export', '--format', 'csv', '--lookup-files', '**/*.css', fixturePath]);
+    expect(csv.stdout.split('\n').slice(0, 3)).toEqual([
+      'name,value,resolvedValue,color,selector,file,line,column',
+      '--accent,var(--brand),#ff0000,#ff0000,:root,styles/theme.css,3,3',
+      '--brand,#ff0000,#ff0000,#ff0000,:root,styles/theme.css,2,3',
+    ]);
+    expect(csv.stdout).toContain('--font,"""Inter"", sans-serif","""Inter"", sans-serif",,:root,styles/theme.css,4,3');
+    expect(csv.stdout).toContain('--legacy,1px,1px,,:root,legacy/old.css,2,3');
+
+    const markdown = await run(['export', '--format', 'markdown', fixturePath]);
+    expect(markdown.stdout).toContain('| `--brand` | #990000 | #990000 | #990000 | .dark | styles/theme.css:8:3 |');
+  });
+
+  test('fails on unknown commands and options', async () => {
+    expect((await run(['lint', fixturePath])).exitCode).toBe(2);
+
+    const { exitCode, stderr } = await run(['export', '--format', 'yaml', fixturePath]);
+    expect(exitCode).toBe(2);
+    expect(stderr).toContain('unknown format yaml');
+  });
+
+  test('prints the TypeScript declarations of the variable names', async () => {
+    const { exitCode, stdout } = await run(['types', fixturePath]);
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain(`export type CSSVariableName =
+  | '--accent'
+  | '--brand'
+  | '--font';`);
+  });
+
+  describe('check', () => {
+    const checkPath = path.join(__dirname, '../fixtures/check');
+
+    test('reports problems and fails when there are errors', async () => {
+      const { exitCode, stdout } = await run(['check', checkPath]);
+
+      expect(exitCode).toBe(1);
+      expect(stdout.split('\n')).toEqual([
+        "button.css:3:19  error  CSS variable '--missing' is not defined.  undefined-variable",
+        "button.css:7:23  error  Custom media '--tiny' is not defined.  undefined-custom-media",
+        'loops.css:2:3  error  Circular reference: --loop-a -> --loop-b -> --loop-a.  circular-reference',
+        "tokens.css:4:3  warning  CSS variable '--brand' is defined as '#ff0000' for ':root', but as '#00ff00' in overrides.css:2:3.  conflicting-definition",
+        '4 problems (3 errors, 1 warning)',
+        '',
+      ]);
+    });
+
+    test('passes when there are only warnings', async () => {
+      const { exitCode, stdout } = await run([
+        'check',
+        '--json',
+        '--lookup-files',
+        '{tokens,overrides}.css',
+        checkPath,
+      ]);
+
+      expect(exitCode).toBe(0);
+      expect(JSON.parse(stdout)).toEqual([
+        {
+          rule: 'conflicting-definition',
+          severity: 'warning',
+          message: "CSS variable '--brand' is defined as '#ff0000' for ':root', but as '#00ff00' in overrides.css:2:3.",
+          file: 'tokens.css',
+          line: 4,
+          column: 3,
+        },
+      ]);
+    });
+
+    test('prints SARIF', async () => {
+      const { stdout } = await run(['check', '--format', 'sarif', checkPath]);
+      const sarif = JSON.parse(stdout);
+
+      expect(sarif.version).toEqual('2.1.0');
+      expect(sarif.runs[0].results[0]).toEqual({
+        ruleId: 'undefined-variable',
+        ruleIndex: 0,
+        level: 'error',
+        message: { text: "CSS variable '--missing' is not defined." },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'button.css' },
+              region: { startLine: 3, startColumn: 19, endLine: 3, endColumn: 28 },
+            },
+          },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import postcss from 'postcss';
+import { extractInlineStyles } from '../../utils/extractInlineStyles';
+
+const getDeclarations = (text: string) => {
+  const output = extractInlineStyles(text);
+  expect(output).toHaveLength(text.length);
+
+  const declarations: { prop: string; value: string; offset: number }[] = [];
+  postcss.parse(output).walkDecls((decl) => {
+    declarations.push({ prop: decl.prop, value: decl.value.trim(), offset: decl.source.start.offset });
+  });
+  return declarations;
+};
+
+describe('extractInlineStyles', () => {
+  it('should extract style attributes', () => {
+    const text = `<p style="font-family: 'Inter'; --accent: red" :style="{ color: x }">`;
+    expect(getDeclarations(text)).toEqual([
+      { prop: 'font-family', value: "'Inter'", offset: 10 },
+      { prop: '--accent', value: 'red', offset: 32 },
+    ]);
+  });
+
+  it('should extract custom properties of style objects', () => {
+    const text = `<div style={{ '--card-gap': '8px', "--columns": 4, color: 'red' }} />`;
+    expect(getDeclarations(text)).toEqual([
+      { prop: '--card-gap', value: '8px', offset: 15 },
+      { prop: '--columns', value: '4', offset: 36 },
+    ]);
+  });
+
+  it('should extract tagged template literals', () => {
+    const text = [
+      'const Button = styled(Base).attrs({ type: "button" })`',
+      '  // the gap comes from the props',
+      '  --gap: ${(props) => props.gap}px;',
+      '  --color: red;',
+      '  &[style="x"] { background: url(http://example.com/a.png); }',
+      '`;',
+      'const global = css`--radius: 4px;`;',
+    ].join('\n');
+
+    // the value of --gap is only known at runtime
+    expect(getDeclarations(text).map(({ prop, value }) => [prop, value])).toEqual([
+      ['--gap', ''],
+      ['--color', 'red'],
+      ['background', 'url(http://example.com/a.png)'],
+      ['--radius', '4px'],
+    ]);
+  });
+
+  it('should keep the declarations around interpolated mixins and selectors', () => {
+    const text = [
+      'const Card = styled.div`',
+      '  ${elevation};',
+      '  --padding: 4px;',
+      '  ${Icon}:hover { --icon: blue; }',
+      '  --shadow: 0 0 ${({ size }) => size}px black',
+      '`;',
+    ].join('\n');
+
+    expect(getDeclarations(text).map(({ prop, value }) => [prop, value])).toEqual([
+      ['--padding', '4px'],
+      ['--icon', 'blue'],
+      ['--shadow', ''],
+    ]);
+  });
+
+  it('should extract numbers at the end of a line of a multi-line style object', () => {
+    const text = [
+      'const style = {',
+      "  '--columns': 4,",
+      "  '--ratio': 1.5",
+      '};',
+      "const inline = { '--order': 2 };",
+    ].join('\n');
+
+    expect(getDeclarations(text)).toEqual([
+      { prop: '--columns', value: '4', offset: 19 },
+      { prop: '--ratio', value: '1.5', offset: 37 },
+      { prop: '--order', value: '2', offset: 72 },
+    ]);
+  });
+
+  it('should ignore everything else', () => {
+    expect(extractInlineStyles('const a = `--x: 1`;\nconst style = "--y: 2";').trim()).toEqual('');
+  });
+});
@@ -0,0 +1,39 @@
+import { findVariableUsages } from '../../utils/findVariableUsages';
+import { findClosestName } from '../../utils/findClosestName';
+
+describe('findVariableUsages', () => {
+  it('should return the name range of every var() reference', () => {
+    const text = 'a { color: var(--primary); margin: var( --space-2 ); }';
+    const usages = findVariableUsages(text);
+
+    expect(usages.map((usage) => usage.name)).toEqual(['--primary', '--space-2']);
+    usages.forEach((usage) => {
+      expect(text.slice(usage.start, usage.end)).toBe(usage.name);
+    });
+  });
+
+  it('should detect fallback values', () => {
+    const usages = findVariableUsages('var(--a, red) var(--b)');
+
+    expect(usages[0].hasFallback).toBe(true);
+    expect(usages[1].hasFallback).toBe(false);
+  });
+
+  it('should find the end of the var() call', () => {
+    const text = 'var(--a, calc(1px + 2px)) var(--b)';
+    const usages = findVariableUsages(text);
+
+    expect(text.slice(0, usages[0].callEnd)).toBe('var(--a, calc(1px + 2px))');
+    expect(usages[1].callEnd).toBe(text.length);
+  });
+});
+
+describe('findClosestName', () => {
+  it('should suggest the nearest variable name', () => {
+    expect(findClosestName('--primry', ['--primary', '--secondary'])).toBe('--primary');
+  });
+
+  it('should not suggest unrelated names', () => {
+    expect(findClosestName('--spacing', ['--primary', '--secondary'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,33 @@
+import { formatColor, getColorNotation, getColorPresentations } from '../../utils/formatColor';
+
+const orange = { red: 1, green: 0.5, blue: 0.25, alpha: 1 };
+
+describe('getColorNotation', () => {
+  it('should detect the notation of a color value', () => {
+    expect(getColorNotation('#fff')).toBe('hex');
+    expect(getColorNotation('rgba(0, 0, 0, 0.5)')).toBe('rgb');
+    expect(getColorNotation('oklch(0.6 0.1 20)')).toBe('oklch');
+    expect(getColorNotation('red')).toBeUndefined();
+  });
+});
+
+describe('formatColor', () => {
+  it('should format colors in the requested notation', () => {
+    expect(formatColor(orange, 'hex')).toBe('#ff8040');
+    expect(formatColor({ ...orange, alpha: 0.5 }, 'hex')).toBe('#ff804080');
+    expect(formatColor(orange, 'rgb')).toBe('rgb(255, 128, 64)');
+    expect(formatColor(orange, 'hsl')).toBe('hsl(20, 100%, 62.5%)');
+    expect(formatColor(orange, 'oklch')).toBe('oklch(0.7341 0.1731 44.9268)');
+  });
+});
+
+describe('getColorPresentations', () => {
+  it('should put the original notation first', () => {
+    expect(getColorPresentations(orange, 'hsl(0, 0%, 0%)')).toEqual([
+      'hsl(20, 100%, 62.5%)',
+      '#ff8040',
+      'rgb(255, 128, 64)',
+      'oklch(0.7341 0.1731 44.9268)',
+    ]);
+  });
+});
@@ -0,0 +1,13 @@
+import { fuzzyMatch } from '../../utils/fuzzyMatch';
+
+describe('fuzzyMatch', () => {
+  it('should match characters in order ignoring case', () => {
+    expect(fuzzyMatch('cbr', '--color-brand')).toBe(true);
+    expect(fuzzyMatch('CB', '--color-brand')).toBe(true);
+    expect(fuzzyMatch('rbc', '--color-brand')).toBe(false);
+  });
+
+  it('should match everything with an empty query', () => {
+    expect(fuzzyMatch('', '--color-brand')).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import path from 'path';
+import {
+  generateTypeDeclarations,
+  writeTypeDeclarations,
+} from '../../utils/generateTypeDeclarations';
+
+describe('generateTypeDeclarations', () => {
+  test('generates a sorted union of the variable names', () => {
+    const declarations = generateTypeDeclarations(['--color-primary', '--spacing', '--color-primary']);
+
+    expect(declarations).toContain(`export type CSSVariableName =
+  | '--color-primary'
+  | '--spacing';`);
+    expect(declarations).toContain('| `var(${CSSVariableName}, ${string})`;');
+    // a declaration without an implementation would fail at runtime
+    expect(declarations).not.toContain('declare function');
+  });
+
+  test('generates an empty union without variables', () => {
+    expect(generateTypeDeclarations([])).toContain('export type CSSVariableName = never;');
+  });
+
+  test('only writes the file when the declarations change', async () => {
+    const outputPath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'css-variables-')),
+      'types',
+      'css-variables.d.ts'
+    );
+
+    expect(await writeTypeDeclarations(outputPath, ['--a'])).toBe(true);
+    expect(await writeTypeDeclarations(outputPath, ['--a'])).toBe(false);
+    expect(await writeTypeDeclarations(outputPath, ['--a', '--b'])).toBe(true);
+    expect(fs.readFileSync(outputPath, 'utf8')).toContain("| '--b'");
+
+    fs.rmSync(path.dirname(path.dirname(outputPath)), { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,23 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getPreprocessorVariableName } from '../../utils/getPreprocessorVariableName';
+
+describe('getPreprocessorVariableName', () => {
+  const scss = TextDocument.create('file:///test.scss', 'scss', 1, '');
+  const less = TextDocument.create('file:///test.less', 'less', 1, '');
+  const css = TextDocument.create('file:///test.css', 'css', 1, '');
+
+  it('should return the variable at the start of the word', () => {
+    expect(getPreprocessorVariableName(scss, '$brand;')).toEqual({ syntax: 'sass', name: '$brand' });
+    expect(getPreprocessorVariableName(less, '@brand;')).toEqual({ syntax: 'less', name: '@brand' });
+  });
+
+  it('should return the prefix typed to trigger completion', () => {
+    expect(getPreprocessorVariableName(scss, '$')).toEqual({ syntax: 'sass', name: '$' });
+    expect(getPreprocessorVariableName(less, '@')).toEqual({ syntax: 'less', name: '@' });
+  });
+
+  it('should only return variables of the syntax of the document', () => {
+    expect(getPreprocessorVariableName(scss, '@brand')).toBeNull();
+    expect(getPreprocessorVariableName(css, '$brand')).toBeNull();
+  });
+});
@@ -0,0 +1,22 @@
+import { getSassMapModule } from '../../utils/getSassMapModule';
+
+describe('getSassMapModule', () => {
+  test('uses the namespace of the loaded module', () => {
+    expect(getSassMapModule("@use 'sass:map';\n")).toEqual({ getFunction: 'map.get' });
+    expect(getSassMapModule('@use "sass:map" as m;\n')).toEqual({ getFunction: 'm.get' });
+    expect(getSassMapModule("@use 'sass:map' as *;\n")).toEqual({ getFunction: 'get' });
+  });
+
+  test('inserts the module after the leading rules when it is missing', () => {
+    expect(getSassMapModule('a { color: red; }')).toEqual({
+      getFunction: 'map.get',
+      useOffset: 0,
+    });
+
+    const content = "@charset 'utf-8';\n// theme\n@use 'theme' as t;\n\na { color: red; }";
+    expect(getSassMapModule(content)).toEqual({
+      getFunction: 'map.get',
+      useOffset: content.indexOf('\n\na'),
+    });
+  });
+});
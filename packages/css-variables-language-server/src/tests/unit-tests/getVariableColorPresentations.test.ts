@@ -0,0 +1,125 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import CSSVariableManager, { defaultSettings } from '../../CSSVariableManager';
+import { getVariableColorPresentations } from '../../utils/getVariableColorPresentations';
+
+describe('getVariableColorPresentations', () => {
+  const red = { red: 1, green: 0, blue: 0, alpha: 1 };
+  const tokensPath = path.resolve('/workspace/tokens.css');
+  const buttonPath = path.resolve('/workspace/button.css');
+
+  const createDocument = async (cssManager: CSSVariableManager, filePath: string, content: string) => {
+    await cssManager.parseCSSVariablesFromText({ content, filePath, settings: defaultSettings });
+    cssManager.resolveVariableReferences();
+    const languageId = path.extname(filePath).slice(1);
+    return TextDocument.create(pathToFileURL(filePath).toString(), languageId, 1, content);
+  };
+
+  const rangeOf = (document: TextDocument, text: string, from = 0) => {
+    const start = document.getText().indexOf(text, from);
+    return {
+      start: document.positionAt(start),
+      end: document.positionAt(start + text.length),
+    };
+  };
+
+  test('replaces a declaration value in place', async () => {
+    const cssManager = new CSSVariableManager();
+    const document = await createDocument(cssManager, tokensPath, ':root { --brand: #00ff00; }');
+
+    const presentations = getVariableColorPresentations(
+      document,
+      rangeOf(document, '#00ff00'),
+      red,
+      cssManager.getAll()
+    );
+
+    expect(presentations[0]).toEqual({
+      label: '#ff0000',
+      textEdit: { range: rangeOf(document, '#00ff00'), newText: '#ff0000' },
+    });
+  });
+
+  test('edits the declaration of a variable used in the same document', async () => {
+    const cssManager = new CSSVariableManager();
+    const document = await createDocument(
+      cssManager,
+      tokensPath,
+      ':root { --brand: rgb(0, 255, 0); --accent: var(--brand); }\na { color: var(--accent); }'
+    );
+    const usageRange = rangeOf(document, '--accent', document.getText().indexOf('color:'));
+
+    const [presentation] = getVariableColorPresentations(
+      document,
+      usageRange,
+      red,
+      cssManager.getAll()
+    );
+
+    // the usage is kept and the declaration of the color is edited
+    expect(presentation).toEqual({
+      label: 'rgb(255, 0, 0)',
+      textEdit: { range: usageRange, newText: '--accent' },
+      additionalTextEdits: [{ range: rangeOf(document, 'rgb(0, 255, 0)'), newText: 'rgb(255, 0, 0)' }],
+    });
+  });
+
+  test('replaces the usage of a variable declared in another document', async () => {
+    const cssManager = new CSSVariableManager();
+    await createDocument(cssManager, tokensPath, ':root { --brand: hsl(120, 100%, 50%); }');
+    const document = await createDocument(
+      cssManager,
+      buttonPath,
+      'a { color: var(--brand, blue); }'
+    );
+
+    const [presentation, ...others] = getVariableColorPresentations(
+      document,
+      rangeOf(document, '--brand'),
+      red,
+      cssManager.getAll()
+    );
+
+    // the notation of the declaration is offered first
+    expect(presentation).toEqual({
+      label: 'hsl(0, 100%, 50%)',
+      textEdit: { range: rangeOf(document, 'var(--brand, blue)'), newText: 'hsl(0, 100%, 50%)' },
+    });
+    expect(others.every((other) => !other.additionalTextEdits)).toBe(true);
+  });
+
+  test('edits Sass and Less variables like var() usages', async () => {
+    const cssManager = new CSSVariableManager();
+    await createDocument(cssManager, path.resolve('/workspace/_colors.scss'), '$brand: #00ff00;');
+    const document = await createDocument(
+      cssManager,
+      path.resolve('/workspace/button.scss'),
+      '$accent: $brand;\na { color: $accent; }'
+    );
+    const variables = cssManager.getAllPreprocessorVariables('sass');
+    const usageRange = rangeOf(document, '$accent', document.getText().indexOf('color:'));
+
+    // the declaration in another file is not edited, the usage is replaced
+    expect(getVariableColorPresentations(document, usageRange, red, variables)[0]).toEqual({
+      label: '#ff0000',
+      textEdit: { range: usageRange, newText: '#ff0000' },
+    });
+
+    const lessDocument = await createDocument(
+      cssManager,
+      path.resolve('/workspace/button.less'),
+      '@brand: #00ff00;\na { color: @brand; }'
+    );
+    const lessRange = rangeOf(lessDocument, '@brand', 10);
+    const [presentation] = getVariableColorPresentations(
+      lessDocument,
+      lessRange,
+      red,
+      cssManager.getAllPreprocessorVariables('less')
+    );
+    expect(presentation.additionalTextEdits).toEqual([
+      { range: rangeOf(lessDocument, '#00ff00'), newText: '#ff0000' },
+    ]);
+  });
+});
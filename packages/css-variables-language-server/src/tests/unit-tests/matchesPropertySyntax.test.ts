@@ -0,0 +1,40 @@
+import { matchesPropertySyntax } from '../../utils/matchesPropertySyntax';
+
+describe('matchesPropertySyntax', () => {
+  it('should match single types', () => {
+    expect(matchesPropertySyntax('45deg', '<angle>')).toBe(true);
+    expect(matchesPropertySyntax('45px', '<angle>')).toBe(false);
+    expect(matchesPropertySyntax('#fff', '<color>')).toBe(true);
+    expect(matchesPropertySyntax('10%', '<length-percentage>')).toBe(true);
+    expect(matchesPropertySyntax('1.5', '<integer>')).toBe(false);
+    expect(matchesPropertySyntax('calc(1px + 2rem)', '<length>')).toBe(true);
+  });
+
+  it('should match alternatives, keywords and lists', () => {
+    expect(matchesPropertySyntax('auto', '<length> | auto')).toBe(true);
+    expect(matchesPropertySyntax('red', '<length> | auto')).toBe(false);
+    expect(matchesPropertySyntax('1px 2px', '<length>+')).toBe(true);
+    expect(matchesPropertySyntax('red, blue', '<color>#')).toBe(true);
+    expect(matchesPropertySyntax('red, 1px', '<color>#')).toBe(false);
+  });
+
+  it('should not take percentages for lengths', () => {
+    expect(matchesPropertySyntax('10%', '<length>')).toBe(false);
+    expect(matchesPropertySyntax('10%', '<percentage>')).toBe(true);
+  });
+
+  it('should accept colors culori cannot parse', () => {
+    expect(matchesPropertySyntax('color-mix(in srgb, red 40%, blue)', '<color>')).toBe(true);
+    expect(matchesPropertySyntax('light-dark(#fff, #000)', '<color>')).toBe(true);
+    expect(matchesPropertySyntax('rgb(from var(--brand) r g b / 50%)', '<color>')).toBe(true);
+    expect(matchesPropertySyntax('currentColor', '<color>')).toBe(true);
+    expect(matchesPropertySyntax('1px', '<color>')).toBe(false);
+    expect(matchesPropertySyntax('calc(1px)', '<color>')).toBe(false);
+    expect(matchesPropertySyntax('url(x)', '<color>')).toBe(false);
+  });
+
+  it('should accept anything for the universal syntax and css-wide keywords', () => {
+    expect(matchesPropertySyntax('whatever 1px', "'*'")).toBe(true);
+    expect(matchesPropertySyntax('inherit', '<angle>')).toBe(true);
+  });
+});
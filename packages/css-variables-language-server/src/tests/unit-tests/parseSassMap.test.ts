@@ -0,0 +1,34 @@
+import { parseSassMap } from '../../utils/parseSassMap';
+
+describe('parseSassMap', () => {
+  test('returns the offset of the key inside its quotes', () => {
+    const value = `("primary": $brand, 'accent': #00f, secondary: #0f0)`;
+
+    expect(parseSassMap(value)).toEqual([
+      { key: 'primary', value: '$brand', offset: value.indexOf('primary') },
+      { key: 'accent', value: '#00f', offset: value.indexOf('accent') },
+      { key: 'secondary', value: '#0f0', offset: value.indexOf('secondary') },
+    ]);
+  });
+
+  test('parses maps followed by flags', () => {
+    expect(parseSassMap('(primary: red) !default')).toEqual([
+      { key: 'primary', value: 'red', offset: 1 },
+    ]);
+    expect(parseSassMap('(primary: red) !default !global')).toHaveLength(1);
+  });
+
+  test('keeps nested maps as the value of their entry', () => {
+    const value = '(button: (bg: red, fg: "a, b"), gap: 4px)';
+
+    expect(parseSassMap(value)).toEqual([
+      { key: 'button', value: '(bg: red, fg: "a, b")', offset: 1 },
+      { key: 'gap', value: '4px', offset: value.indexOf('gap') },
+    ]);
+  });
+
+  test('ignores values that are not maps', () => {
+    expect(parseSassMap('#ff0000 !default')).toEqual([]);
+    expect(parseSassMap('($a, $b)')).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { Color, Range } from 'vscode-languageserver/node';
+import { CSSVariable } from '../../CSSVariableManager';
+import {
+  CompletionRankingContext,
+  getCompletionScore,
+  getCurrentProperty,
+  getValueKind,
+  toSortText,
+} from '../../utils/rankCompletions';
+
+const createVariable = (name: string, value: string, filePath: string, color?: Color): CSSVariable => ({
+  symbol: { name, value },
+  definition: { uri: `file://${filePath}`, range: Range.create(0, 0, 0, 0) },
+  color,
+});
+
+describe('rankCompletions', () => {
+  test('finds the property being edited', () => {
+    expect(getCurrentProperty('a { color: var(--', 17)).toEqual('color');
+    expect(getCurrentProperty('a { color: red; margin: 0 var(--', 33)).toEqual('margin');
+    expect(getCurrentProperty("style={{ backgroundColor: 'var(--", 33)).toEqual('background-color');
+    expect(getCurrentProperty('a:hover { --', 12)).toBeUndefined();
+  });
+
+  test('knows which properties expect colors and lengths', () => {
+    expect(getValueKind('background')).toEqual('color');
+    expect(getValueKind('border-top-color')).toEqual('color');
+    expect(getValueKind('margin-inline')).toEqual('length');
+    expect(getValueKind('border-radius')).toEqual('length');
+    expect(getValueKind('max-width')).toEqual('length');
+    expect(getValueKind('display')).toBeUndefined();
+  });
+
+  describe('getCompletionScore', () => {
+    const brand = createVariable('--brand', '#f00', '/src/tokens.css', Color.create(1, 0, 0, 1));
+    const spacing = createVariable('--spacing', 'var(--base)', '/src/tokens.css');
+    const base = createVariable('--base', '8px', '/src/base.css');
+    const local = createVariable('--local', 'bold', '/src/button.css');
+
+    const context: CompletionRankingContext = {
+      filePath: '/src/button.css',
+      reachableFiles: new Set(['/src/button.css', '/src/tokens.css']),
+      usageCounts: new Map(),
+      recentNames: [],
+      allVariables: new Map([brand, spacing, base, local].map((v) => [v.symbol.name, v])),
+    };
+
+    const rank = (rankingContext: CompletionRankingContext) =>
+      [brand, spacing, base, local]
+        .map((variable) => ({
+          name: variable.symbol.name,
+          sortText: toSortText(getCompletionScore(variable, rankingContext)),
+        }))
+        .sort((a, b) => a.sortText.localeCompare(b.sortText) || a.name.localeCompare(b.name))
+        .map(({ name }) => name);
+
+    test('ranks the variables of the current file and its imports first', () => {
+      expect(rank(context)).toEqual(['--local', '--brand', '--spacing', '--base']);
+    });
+
+    test('ranks the variables matching the property first', () => {
+      expect(rank({ ...context, valueKind: 'color' })).toEqual(['--brand', '--local', '--spacing', '--base']);
+      expect(rank({ ...context, valueKind: 'length' })).toEqual(['--spacing', '--base', '--local', '--brand']);
+    });
+
+    test('ranks used and recently accepted variables higher', () => {
+      expect(rank({ ...context, usageCounts: new Map([['--spacing', 12]]) }))
+        .toEqual(['--local', '--spacing', '--brand', '--base']);
+      expect(rank({ ...context, recentNames: ['--base', '--brand'] }))
+        .toEqual(['--local', '--brand', '--spacing', '--base']);
+      expect(rank({ ...context, reachableFiles: undefined, recentNames: ['--base', '--brand'] }))
+        .toEqual(['--local', '--base', '--brand', '--spacing']);
+    });
+  });
+});
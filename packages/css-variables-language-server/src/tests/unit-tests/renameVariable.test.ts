@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { ResponseError, WorkspaceEdit } from 'vscode-languageserver/node';
+import CSSVariableManager, { defaultSettings } from '../../CSSVariableManager';
+import { findReferencesInText, renameVariable } from '../../utils/renameVariable';
+
+describe('renameVariable', () => {
+  const fixturePath = path.join(__dirname, '../fixtures/rename');
+  const settings = {
+    ...defaultSettings,
+    lookupFiles: ['styles/**/*.css'],
+    blacklistFolders: ['**/vendor'],
+  };
+  const uriOf = (file: string) => pathToFileURL(path.join(fixturePath, file)).toString();
+
+  const rename = async (newName: string, getOpenContent?: (filePath: string) => string | undefined) => {
+    const cssVariableManager = new CSSVariableManager();
+    await cssVariableManager.parseAndSyncVariables([fixturePath], settings);
+
+    return renameVariable({
+      cssVariableManager,
+      name: '--brand',
+      newName,
+      folderPaths: [fixturePath],
+      settings,
+      getOpenContent,
+    });
+  };
+
+  // the renamed text of each changed file
+  const applyEdit = ({ changes }: WorkspaceEdit) =>
+    Object.fromEntries(Object.entries(changes).map(([uri, edits]) => {
+      const file = path.relative(fixturePath, fileURLToPath(uri));
+      const lines = fs.readFileSync(path.join(fixturePath, file), 'utf8').split('\n');
+      [...edits]
+        .sort((a, b) => b.range.start.character - a.range.start.character)
+        .forEach(({ range, newText }) => {
+          const line = lines[range.start.line];
+          lines[range.start.line] =
+            line.slice(0, range.start.character) + newText + line.slice(range.end.character);
+        });
+      return [file, lines.join('\n')];
+    }));
+
+  test('finds usages with and without fallback, declarations and style APIs', () => {
+    const text = "a { --brand: red; color: var(--brand, var( --brand )); } /* --brand */ x.setProperty('--brand') '--brand-new'";
+    expect(findReferencesInText(text, '--brand').map(({ start }) => start)).toEqual([
+      4,
+      29,
+      43,
+      text.indexOf("'--brand')") + 1,
+    ]);
+  });
+
+  test('renames the references of every file of the workspace', async () => {
+    const edit = await rename('--primary') as WorkspaceEdit;
+    const files = applyEdit(edit);
+
+    expect(Object.keys(files).sort()).toEqual([
+      'components/Button.tsx',
+      'page.html',
+      'styles/button.css',
+      'styles/theme.css',
+    ]);
+    expect(files['styles/theme.css']).toContain('--primary: #ff0000;');
+    expect(files['styles/theme.css']).toContain('var(--primary, var(--fallback))');
+    expect(files['styles/theme.css']).toContain('@property --primary {');
+    expect(files['styles/button.css']).toContain('var(--other, var( --primary ))');
+    expect(files['components/Button.tsx']).toContain("style={{ '--primary': 'blue', color: 'var(--primary)' }}");
+    expect(files['components/Button.tsx']).toContain("setProperty('--primary', 'red')");
+    expect(files['components/Button.tsx']).toContain('// --brand is left alone');
+    expect(files['components/Button.tsx']).toContain("getPropertyValue('--brand-new')");
+    expect(files['page.html']).toContain('--primary: #0000ff; color: var(--primary)');
+
+    // each reference is renamed once
+    expect(edit.changes[uriOf('styles/theme.css')]).toHaveLength(3);
+  });
+
+  test('searches open documents in their unsaved content', async () => {
+    const buttonPath = path.join(fixturePath, 'components/Button.tsx');
+    const edit = await rename('--primary', (filePath) =>
+      filePath === buttonPath ? 'export const Button = null;' : undefined
+    ) as WorkspaceEdit;
+
+    expect(edit.changes[uriOf('components/Button.tsx')]).toBeUndefined();
+  });
+
+  test('refuses names that are invalid or already taken', async () => {
+    const invalid = await rename('primary');
+    expect(invalid).toBeInstanceOf(ResponseError);
+    expect((invalid as ResponseError<void>).message).toEqual("'primary' is not a valid CSS variable name.");
+
+    const taken = await rename('--other');
+    expect(taken).toBeInstanceOf(ResponseError);
+    expect((taken as ResponseError<void>).message).toEqual("CSS variable '--other' already exists.");
+  });
+});
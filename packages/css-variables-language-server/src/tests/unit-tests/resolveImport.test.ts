@@ -0,0 +1,40 @@
+import path from 'path';
+import { getImportSpecifiers, resolveImport } from '../../utils/resolveImport';
+
+const fixturePath = path.join(__dirname, '../fixtures/imports');
+const mainFile = path.join(fixturePath, 'src/main.scss');
+
+describe('getImportSpecifiers', () => {
+  it('should return the URLs of import rules', () => {
+    expect(getImportSpecifiers("'theme' as t")).toEqual(['theme']);
+    expect(getImportSpecifiers('url(./reset.css) screen')).toEqual(['./reset.css']);
+    expect(getImportSpecifiers('"a", \'b\'')).toEqual(['a', 'b']);
+    expect(getImportSpecifiers("(reference) 'mixins.less'")).toEqual(['mixins.less']);
+  });
+});
+
+describe('resolveImport', () => {
+  it('should resolve relative files and partials', () => {
+    expect(resolveImport('./tokens.css', mainFile)).toEqual(path.join(fixturePath, 'src/tokens.css'));
+    expect(resolveImport('theme', mainFile)).toEqual(path.join(fixturePath, 'src/_theme.scss'));
+    expect(resolveImport('./missing', mainFile)).toBeUndefined();
+  });
+
+  it('should resolve packages in node_modules', () => {
+    expect(resolveImport('~design-lib', mainFile)).toEqual(
+      path.join(fixturePath, 'node_modules/design-lib/css/lib.css')
+    );
+    expect(resolveImport('open-props', mainFile)).toEqual(
+      path.join(fixturePath, 'node_modules/open-props/open-props.min.css')
+    );
+    expect(resolveImport('@scope/theme-pack/themes/dark', mainFile)).toEqual(
+      path.join(fixturePath, 'node_modules/@scope/theme-pack/themes/dark.css')
+    );
+    expect(resolveImport('@scope/theme-pack/themes/light', mainFile)).toBeUndefined();
+  });
+
+  it('should ignore urls and built-in modules', () => {
+    expect(resolveImport('sass:math', mainFile)).toBeUndefined();
+    expect(resolveImport('https://example.com/a.css', mainFile)).toBeUndefined();
+  });
+});
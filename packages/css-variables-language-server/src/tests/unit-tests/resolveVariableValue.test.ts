@@ -0,0 +1,61 @@
+import { CSSVariable } from '../../CSSVariableManager';
+import { getResolutionChain } from '../../utils/resolveVariableValue';
+import { formatVariableHover } from '../../utils/formatVariableHover';
+
+function createVariable(name: string, value: string, selector = ':root'): CSSVariable {
+  return {
+    symbol: { name, value },
+    definition: {
+      uri: 'file:///styles/tokens.css',
+      range: { start: { line: 4, character: 2 }, end: { line: 4, character: 20 } },
+    },
+    selector,
+    atRules: [],
+  };
+}
+
+const variableMap = new Map<string, CSSVariable>([
+  ['--brand-500', { ...createVariable('--brand-500', '#ff0000'), color: { red: 1, green: 0, blue: 0, alpha: 1 } }],
+  ['--button-bg', createVariable('--button-bg', 'var(--brand-500)')],
+  ['--gap', createVariable('--gap', '4px')],
+]);
+
+describe('getResolutionChain', () => {
+  it('should list every var() step', () => {
+    expect(getResolutionChain('var(--button-bg)', variableMap)).toEqual([
+      'var(--button-bg)',
+      'var(--brand-500)',
+      '#ff0000',
+    ]);
+  });
+
+  it('should use fallbacks of undefined variables', () => {
+    expect(getResolutionChain('var(--missing, var(--gap))', variableMap)).toEqual([
+      'var(--missing, var(--gap))',
+      'var(--gap)',
+      '4px',
+    ]);
+  });
+
+  it('should resolve values with several references in one step', () => {
+    expect(getResolutionChain('var(--gap) var(--gap)', variableMap)).toEqual([
+      'var(--gap) var(--gap)',
+      '4px 4px',
+    ]);
+  });
+});
+
+describe('formatVariableHover', () => {
+  it('should show the chain, the color and where the variable is defined', () => {
+    const buttonBg = { ...variableMap.get('--button-bg'), color: { red: 1, green: 0, blue: 0, alpha: 1 } };
+    const darkButtonBg = createVariable('--button-bg', '#000000', '.dark');
+
+    const hover = formatVariableHover(buttonBg, [buttonBg, darkButtonBg], variableMap);
+
+    expect(hover).toContain('Resolves: `var(--brand-500)` → `#ff0000`');
+    expect(hover).toContain('Computed value: `#ff0000`');
+    expect(hover).toContain('`#ff0000` · `oklch(');
+    expect(hover).toContain('Defined in [tokens.css:5](file:///styles/tokens.css#L5) under `:root`');
+    expect(hover).toContain('- `.dark` `#000000` in [tokens.css:5]');
+  });
+});
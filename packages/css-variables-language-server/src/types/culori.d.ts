@@ -13,16 +13,23 @@ declare module 'culori' {
     b: number
     alpha?: number
   }
-  export type Color = RgbColor | HslColor
+  export interface OtherColor {
+    mode: 'hwb' | 'lab' | 'lch' | 'oklab' | 'oklch'
+    alpha?: number
+    [channel: string]: number | string | undefined
+  }
+  export type Color = RgbColor | HslColor | OtherColor
   export function parse(color: string): Color | undefined
   export function formatRgb(color: Color | string): string
   export function formatHsl(color: Color | string): string
   export function formatHex(color: Color | string): string
   export function formatHex8(color: Color | string): string
+  export function formatCss(color: Color | string): string
+  export function round(precision: number): (value: number) => number
 
-  type Mode = 'rgb' | 'hsl'
+  type Mode = 'rgb' | 'hsl' | OtherColor['mode']
 
   export function converter<T extends Mode>(
     mode: T
-  ): (color: Color | string) => T extends 'rgb' ? RgbColor : T extends 'hsl' ? HslColor : never
-}
\ No newline at end of file
+  ): (color: Color | string) => T extends 'rgb' ? RgbColor : T extends 'hsl' ? HslColor : OtherColor
+}
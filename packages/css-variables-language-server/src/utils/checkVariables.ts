@@ -0,0 +1,220 @@
+import * as fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { Location, Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type CSSVariableManager from '../CSSVariableManager';
+import type { CSSVariable, CSSVariablesSettings } from '../CSSVariableManager';
+import { findVariableUsages } from './findVariableUsages';
+
+export type CheckRule =
+  | 'undefined-variable'
+  | 'circular-reference'
+  | 'conflicting-definition'
+  | 'undefined-custom-media'
+
+export type CheckSeverity = 'error' | 'warning'
+
+export type CheckProblem = {
+  rule: CheckRule
+  severity: CheckSeverity
+  message: string
+  location: Location
+}
+
+export const CHECK_RULES: Record<CheckRule, { severity: CheckSeverity, description: string }> = {
+  'undefined-variable': {
+    severity: 'error',
+    description: 'var() references a variable that is not defined and has no fallback',
+  },
+  'circular-reference': {
+    severity: 'error',
+    description: 'variables reference each other in a cycle',
+  },
+  'conflicting-definition': {
+    severity: 'warning',
+    description: 'a variable is defined with different values for the same selector',
+  },
+  'undefined-custom-media': {
+    severity: 'error',
+    description: 'a media query references a @custom-media that is not defined',
+  },
+};
+
+// `(--name)` in the prelude of @media and @custom-media rules
+const CUSTOM_MEDIA_RULE_RE = /@(media|custom-media)\s([^{;]*)/g;
+const CUSTOM_MEDIA_REFERENCE_RE = /\(\s*(--[\w-]+)\s*\)/g;
+
+const createProblem = (rule: CheckRule, message: string, location: Location): CheckProblem => ({
+  rule,
+  severity: CHECK_RULES[rule].severity,
+  message,
+  location,
+});
+
+const formatLocation = ({ uri, range }: Location) =>
+  `${path.basename(uri)}:${range.start.line + 1}:${range.start.character + 1}`;
+
+/**
+ * Finds the var() references without fallback to undefined variables and,
+ * with `enableCustomMedia`, the references to undefined custom media
+ */
+function checkReferences(
+  cssVariableManager: CSSVariableManager,
+  filePath: string,
+  settings: CSSVariablesSettings
+): CheckProblem[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return [];
+  }
+
+  const fileURI = pathToFileURL(filePath).toString();
+  const document = TextDocument.create(fileURI, '', 0, content);
+  const getLocation = (start: number, end: number): Location => ({
+    uri: fileURI,
+    range: Range.create(document.positionAt(start), document.positionAt(end)),
+  });
+
+  const allVariables = cssVariableManager.getAll();
+  const problems = findVariableUsages(content)
+    .filter((usage) => !usage.hasFallback && !allVariables.has(usage.name))
+    .map((usage) => createProblem(
+      'undefined-variable',
+      `CSS variable '${usage.name}' is not defined.`,
+      getLocation(usage.start, usage.end)
+    ));
+
+  if (settings.enableCustomMedia) {
+    let rule: RegExpExecArray | null;
+    CUSTOM_MEDIA_RULE_RE.lastIndex = 0;
+    while ((rule = CUSTOM_MEDIA_RULE_RE.exec(content)) !== null) {
+      const preludeStart = rule.index + rule[0].length - rule[2].length;
+      let reference: RegExpExecArray | null;
+      CUSTOM_MEDIA_REFERENCE_RE.lastIndex = 0;
+      while ((reference = CUSTOM_MEDIA_REFERENCE_RE.exec(rule[2])) !== null) {
+        const name = reference[1];
+        if (!cssVariableManager.getCustomMedia(name)) {
+          const start = preludeStart + reference.index + reference[0].indexOf(name);
+          problems.push(createProblem(
+            'undefined-custom-media',
+            `Custom media '${name}' is not defined.`,
+            getLocation(start, start + name.length)
+          ));
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Finds the cycles between the values picked for each variable, the ones
+ * `resolveVariableValue` stops at
+ */
+function checkCircularReferences(allVariables: Map<string, CSSVariable>): CheckProblem[] {
+  const problems: CheckProblem[] = [];
+  const visited: Set<string> = new Set();
+  const reported: Set<string> = new Set();
+
+  const visit = (name: string, stack: string[]) => {
+    const cycleStart = stack.indexOf(name);
+    if (cycleStart !== -1) {
+      const cycle = stack.slice(cycleStart);
+      const key = [...cycle].sort().join(' ');
+      if (!reported.has(key)) {
+        reported.add(key);
+        problems.push(createProblem(
+          'circular-reference',
+          `Circular reference: ${[...cycle, name].join(' -> ')}.`,
+          allVariables.get(name).definition
+        ));
+      }
+      return;
+    }
+
+    const variable = allVariables.get(name);
+    if (!variable || visited.has(name)) {
+      return;
+    }
+    visited.add(name);
+
+    findVariableUsages(variable.symbol.value).forEach((usage) => {
+      visit(usage.name, [...stack, name]);
+    });
+  };
+
+  Array.from(allVariables.keys()).sort().forEach((name) => visit(name, []));
+
+  return problems;
+}
+
+/**
+ * Finds variables defined more than once with different values for the
+ * same selector and at-rules, declarations for other themes or media are
+ * not conflicts
+ */
+function checkConflictingDefinitions(definitions: CSSVariable[]): CheckProblem[] {
+  const groups: Map<string, CSSVariable[]> = new Map();
+
+  // the first definition by location is the one the others conflict with
+  const byLocation = (a: CSSVariable, b: CSSVariable) =>
+    a.definition.uri.localeCompare(b.definition.uri) ||
+    a.definition.range.start.line - b.definition.range.start.line;
+
+  definitions
+    .filter((definition) => !definition.isInitialValue)
+    .sort(byLocation)
+    .forEach((definition) => {
+      const key = JSON.stringify([
+        definition.symbol.name,
+        definition.selector || '',
+        definition.atRules || [],
+      ]);
+      groups.set(key, [...(groups.get(key) || []), definition]);
+    });
+
+  const problems: CheckProblem[] = [];
+  groups.forEach(([first, ...others]) => {
+    others
+      .filter((other) => other.symbol.value !== first.symbol.value)
+      .forEach((other) => {
+        const context = other.selector ? ` for '${other.selector}'` : '';
+        problems.push(createProblem(
+          'conflicting-definition',
+          `CSS variable '${other.symbol.name}' is defined as '${other.symbol.value}'${context}, but as '${first.symbol.value}' in ${formatLocation(first.definition)}.`,
+          other.definition
+        ));
+      });
+  });
+
+  return problems;
+}
+
+/**
+ * Checks the indexed files for the problems a CI job should catch, sorted
+ * by location
+ */
+export function checkVariables(
+  cssVariableManager: CSSVariableManager,
+  settings: CSSVariablesSettings
+): CheckProblem[] {
+  const problems = [
+    ...cssVariableManager
+      .getIndexedFiles()
+      .filter((filePath) => path.isAbsolute(filePath))
+      .flatMap((filePath) => checkReferences(cssVariableManager, filePath, settings)),
+    ...checkCircularReferences(cssVariableManager.getAll()),
+    ...checkConflictingDefinitions(cssVariableManager.getAllDefinitions()),
+  ];
+
+  return problems.sort(
+    (a, b) =>
+      a.location.uri.localeCompare(b.location.uri) ||
+      a.location.range.start.line - b.location.range.start.line ||
+      a.location.range.start.character - b.location.range.start.character
+  );
+}
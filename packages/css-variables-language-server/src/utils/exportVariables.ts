@@ -0,0 +1,112 @@
+import path from 'path';
+import type CSSVariableManager from '../CSSVariableManager';
+import { uriToPath } from './protocol';
+import { formatColor } from './formatColor';
+import { resolveVariableValue } from './resolveVariableValue';
+
+export const EXPORT_FORMATS = ['json', 'csv', 'markdown'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export type VariableRecord = {
+  name: string
+  value: string
+  resolvedValue: string
+  /** hex code of the resolved value when it is a color */
+  color?: string
+  selector?: string
+  atRules?: string[]
+  /** path relative to the indexed folder, or the url of remote stylesheets */
+  file: string
+  /** 1-based position of the declaration */
+  line: number
+  column: number
+}
+
+/**
+ * Returns every definition of every indexed variable, sorted by name and
+ * location
+ */
+export function getVariableRecords(
+  cssVariableManager: CSSVariableManager,
+  rootPath: string
+): VariableRecord[] {
+  const allVariables = cssVariableManager.getAll();
+
+  const records = cssVariableManager.getAllDefinitions().map((variable): VariableRecord => {
+    const filePath = uriToPath(variable.definition.uri);
+    const { start } = variable.definition.range;
+
+    return {
+      name: variable.symbol.name,
+      value: variable.symbol.value,
+      resolvedValue: resolveVariableValue(variable.symbol.value, allVariables),
+      color: variable.color && formatColor(variable.color, 'hex'),
+      selector: variable.selector,
+      atRules: variable.atRules?.length ? variable.atRules : undefined,
+      file: filePath
+        ? path.relative(rootPath, filePath).split(path.sep).join('/')
+        : variable.definition.uri,
+      line: start.line + 1,
+      column: start.character + 1,
+    };
+  });
+
+  return records.sort(
+    (a, b) =>
+      a.name.localeCompare(b.name) ||
+      a.file.localeCompare(b.file) ||
+      a.line - b.line ||
+      a.column - b.column
+  );
+}
+
+const CSV_COLUMNS: (keyof VariableRecord)[] = [
+  'name',
+  'value',
+  'resolvedValue',
+  'color',
+  'selector',
+  'file',
+  'line',
+  'column',
+];
+
+const escapeCSV = (value: unknown) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeMarkdown = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+/**
+ * Formats the records for other tools, e.g. a design-system documentation
+ * site
+ */
+export function formatVariableRecords(records: VariableRecord[], format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return [
+        CSV_COLUMNS.join(','),
+        ...records.map((record) => CSV_COLUMNS.map((column) => escapeCSV(record[column])).join(',')),
+      ].join('\n');
+    case 'markdown':
+      return [
+        '| Name | Value | Resolved value | Color | Selector | Location |',
+        '| --- | --- | --- | --- | --- | --- |',
+        ...records.map((record) => {
+          const cells = [
+            `\`${record.name}\``,
+            escapeMarkdown(record.value),
+            escapeMarkdown(record.resolvedValue),
+            record.color || '',
+            escapeMarkdown(record.selector || ''),
+            `${record.file}:${record.line}:${record.column}`,
+          ];
+          return `| ${cells.join(' | ')} |`;
+        }),
+      ].join('\n');
+    default:
+      return JSON.stringify(records, null, 2);
+  }
+}
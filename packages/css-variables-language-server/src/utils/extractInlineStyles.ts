@@ -0,0 +1,193 @@
+// tags of CSS-in-JS template literals, e.g. styled.div``, styled(Button)`` or css``
+const TEMPLATE_TAG_RE =
+  /\b(?:styled(?:\.\w+|\([^()]*\))(?:\.attrs\((?:[^()]|\([^()]*\))*\))?|css|createGlobalStyle|injectGlobal)\s*`/g;
+
+// style="..." attributes, but neither bound ones like :style="..." nor
+// attribute selectors like [style="..."]
+const STYLE_ATTRIBUTE_RE = /(?<![:[\w-])style=(?:"([^"]*)"|'([^']*)')/g;
+
+// '--name': 'value' entries of style objects
+const STYLE_OBJECT_ENTRY_RE =
+  /(["'])(--[\w-]+)\1\s*:\s*(?:(["'`])([^"'`\n$]*)\3|(-?\d*\.?\d+)(?=[\s,}]))/g;
+
+/**
+ * Finds the closing backtick of a template literal and the `${}`
+ * interpolations in between
+ */
+function scanTemplateLiteral(text: string, offset: number) {
+  const interpolations: [number, number][] = [];
+  let i = offset;
+
+  while (i < text.length) {
+    const char = text.charAt(i);
+
+    if (char === '\\') {
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      return { end: i, interpolations };
+    }
+
+    if (char === '$' && text.charAt(i + 1) === '{') {
+      const start = i;
+      let depth = 0;
+      for (; i < text.length; i++) {
+        if (text.charAt(i) === '{') {
+          depth++;
+        } else if (text.charAt(i) === '}') {
+          depth--;
+          if (depth === 0) {
+            break;
+          }
+        }
+      }
+      interpolations.push([start, i + 1]);
+    }
+
+    i++;
+  }
+
+  return undefined;
+}
+
+/**
+ * Blanks out the values that have an interpolation, they are only known at
+ * runtime. The declarations are kept with an empty value so their names
+ * are still indexed. Interpolations elsewhere, e.g. mixins or selectors,
+ * are already blanked and leave the declarations around them
+ */
+function blankInterpolatedValues(
+  output: string[],
+  interpolations: [number, number][],
+  open: number,
+  close: number
+) {
+  const isBoundary = (char: string) => char === ';' || char === '{' || char === '}';
+  const isNewline = (char: string) => char === '\n' || char === '\r';
+
+  interpolations.forEach(([start, end]) => {
+    let declarationStart = start - 1;
+    while (declarationStart > open && !isBoundary(output[declarationStart])) {
+      declarationStart--;
+    }
+
+    let declarationEnd = end;
+    while (declarationEnd < close && !isBoundary(output[declarationEnd])) {
+      declarationEnd++;
+    }
+
+    const colon = output.indexOf(':', declarationStart + 1);
+    // the interpolation is part of a selector or is not in a value
+    if (output[declarationEnd] === '{' || colon === -1 || colon > start) {
+      return;
+    }
+
+    let valueStart = colon + 1;
+    while (valueStart < declarationEnd && isNewline(output[valueStart])) {
+      valueStart++;
+    }
+
+    for (let i = valueStart; i < declarationEnd; i++) {
+      if (!isNewline(output[i])) {
+        output[i] = ' ';
+      }
+    }
+    // the declaration ends right after its colon
+    output[valueStart] = ';';
+  });
+}
+
+/**
+ * Collects the declarations of style attributes, style objects and CSS-in-JS
+ * template literals into a stylesheet with the same line and column offsets
+ * as the original file, each of them becomes a rule without selector
+ * Examples:
+ *   '<div style="--a: red">' => '            {--a: red}  '
+ *   "style={{ '--a': '8px' }}" => '          {--a :  8px}   '
+ *   'styled.div`--a: red;`' => '          {--a: red;}'
+ */
+export function extractInlineStyles(text: string): string {
+  const output = text.replace(/[^\r\n]/g, ' ').split('');
+
+  const copy = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      output[i] = text.charAt(i);
+    }
+  };
+
+  const blankOut = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      if (output[i] !== '\n' && output[i] !== '\r') {
+        output[i] = ' ';
+      }
+    }
+  };
+
+  let match: RegExpExecArray | null;
+
+  TEMPLATE_TAG_RE.lastIndex = 0;
+  while ((match = TEMPLATE_TAG_RE.exec(text)) !== null) {
+    const open = match.index + match[0].length - 1;
+    const template = scanTemplateLiteral(text, open + 1);
+    if (!template) {
+      break;
+    }
+
+    copy(open + 1, template.end);
+    output[open] = '{';
+    output[template.end] = '}';
+    template.interpolations.forEach(([start, end]) => blankOut(start, end));
+
+    // line comments are not valid CSS
+    const body = text.slice(open + 1, template.end);
+    const commentRe = /(^|\s)\/\/[^\n]*/g;
+    let comment: RegExpExecArray | null;
+    while ((comment = commentRe.exec(body)) !== null) {
+      blankOut(open + 1 + comment.index, open + 1 + comment.index + comment[0].length);
+    }
+
+    blankInterpolatedValues(output, template.interpolations, open, template.end);
+
+    TEMPLATE_TAG_RE.lastIndex = template.end + 1;
+  }
+
+  STYLE_ATTRIBUTE_RE.lastIndex = 0;
+  while ((match = STYLE_ATTRIBUTE_RE.exec(text)) !== null) {
+    const value = match[1] ?? match[2];
+    const open = match.index + match[0].length - value.length - 2;
+    copy(open + 1, open + 1 + value.length);
+    output[open] = '{';
+    output[open + 1 + value.length] = '}';
+  }
+
+  STYLE_OBJECT_ENTRY_RE.lastIndex = 0;
+  while ((match = STYLE_OBJECT_ENTRY_RE.exec(text)) !== null) {
+    const nameStart = match.index + 1;
+    const valueEnd = match.index + match[0].length;
+
+    output[match.index] = '{';
+    copy(nameStart, nameStart + match[2].length);
+
+    if (match[4] !== undefined) {
+      // the value without its quotes
+      copy(valueEnd - 1 - match[4].length, valueEnd - 1);
+      output[valueEnd - 1] = '}';
+    } else {
+      copy(valueEnd - match[5].length, valueEnd);
+
+      // a value at the end of a line is closed on the next one
+      let close = valueEnd;
+      while (text.charAt(close) === '\n' || text.charAt(close) === '\r') {
+        close++;
+      }
+      output[close] = '}';
+    }
+
+    // the colon between name and value
+    output[text.indexOf(':', nameStart + match[2].length + 1)] = ':';
+  }
+
+  return output.join('');
+}
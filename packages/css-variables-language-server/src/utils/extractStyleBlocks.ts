@@ -0,0 +1,42 @@
+export interface StyleBlock {
+  /** value of the `lang` attribute, `css` when it is missing */
+  lang: string;
+  /**
+   * the file content up to the end of the block, with everything before
+   * the block blanked out so that line and column offsets stay the same
+   */
+  content: string;
+}
+
+/**
+ * Replaces every character except line breaks with a space
+ */
+function blankOut(text: string): string {
+  return text.replace(/[^\r\n]/g, ' ');
+}
+
+/**
+ * Finds the `<style>` blocks of a Vue, Svelte, Astro or HTML file
+ * Example:
+ *   '<template />\n<style lang="scss">:root { --a: 1px; }</style>' => [
+ *     { lang: "scss", content: "            \n                  :root { --a: 1px; }" },
+ *   ]
+ */
+export function extractStyleBlocks(text: string): StyleBlock[] {
+  const blocks: StyleBlock[] = [];
+  const re = /<style\b([^>]*)>([\s\S]*?)<\/style\s*>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = re.exec(text)) !== null) {
+    const attributes = match[1];
+    const contentStart = match.index + match[0].indexOf('>') + 1;
+    const langMatch = attributes.match(/\blang\s*=\s*["']?([\w-]+)/i);
+
+    blocks.push({
+      lang: langMatch ? langMatch[1].toLowerCase() : 'css',
+      content: blankOut(text.slice(0, contentStart)) + match[2],
+    });
+  }
+
+  return blocks;
+}
@@ -0,0 +1,47 @@
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const current = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = current;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Returns the candidate with the smallest edit distance to `name`,
+ * or undefined when none of them is close enough to be a likely typo.
+ */
+export function findClosestName(
+  name: string,
+  candidates: Iterable<string>
+): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(name.length / 3));
+  let closest: string | undefined;
+  let closestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    if (Math.abs(candidate.length - name.length) > maxDistance) {
+      continue;
+    }
+
+    const distance = levenshtein(name, candidate);
+    if (distance <= maxDistance && distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
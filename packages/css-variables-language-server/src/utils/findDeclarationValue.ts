@@ -0,0 +1,30 @@
+/**
+ * Finds the value of the declaration starting at `offset`
+ * Example:
+ *   "--bg: #fff !important;" => the offsets of "#fff"
+ */
+export function findDeclarationValue(
+  text: string,
+  offset: number
+): { start: number; end: number } | null {
+  const colonIndex = text.indexOf(':', offset);
+  if (colonIndex === -1) {
+    return null;
+  }
+
+  let start = colonIndex + 1;
+  while (start < text.length && /\s/.test(text.charAt(start))) {
+    start++;
+  }
+
+  let end = start;
+  while (end < text.length && ';}!\n'.indexOf(text.charAt(end)) === -1) {
+    end++;
+  }
+
+  while (end > start && /\s/.test(text.charAt(end - 1))) {
+    end--;
+  }
+
+  return { start, end };
+}
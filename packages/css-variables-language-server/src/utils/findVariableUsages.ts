@@ -0,0 +1,54 @@
+export interface VariableUsage {
+  name: string;
+  /** offset of the first character of the variable name */
+  start: number;
+  /** offset right after the last character of the variable name */
+  end: number;
+  hasFallback: boolean;
+  /** offset right after the closing parenthesis of the var() call */
+  callEnd: number;
+}
+
+function findClosingParenthesis(text: string, offset: number): number {
+  let depth = 1;
+
+  for (let i = offset; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+
+  return text.length;
+}
+
+/**
+ * Finds every `var(--name)` reference in the given text
+ * Examples:
+ *   "var(--color)" => { name: "--color", hasFallback: false }
+ *   "var(--color, blue)" => { name: "--color", hasFallback: true }
+ */
+export function findVariableUsages(text: string): VariableUsage[] {
+  const usages: VariableUsage[] = [];
+  const re = /var\(\s*(--[\w-]+)\s*(,)?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = re.exec(text)) !== null) {
+    const start = match.index + match[0].indexOf(match[1]);
+    const end = start + match[1].length;
+    usages.push({
+      name: match[1],
+      start,
+      end,
+      hasFallback: !!match[2],
+      callEnd: findClosingParenthesis(text, end),
+    });
+  }
+
+  return usages;
+}
@@ -0,0 +1,106 @@
+import path from 'path';
+import { CHECK_RULES, CheckProblem, CheckRule } from './checkVariables';
+import { uriToPath } from './protocol';
+
+export const CHECK_FORMATS = ['human', 'json', 'sarif'] as const;
+
+export type CheckFormat = typeof CHECK_FORMATS[number];
+
+const getFile = (uri: string, rootPath: string) => {
+  const filePath = uriToPath(uri);
+  return filePath ? path.relative(rootPath, filePath).split(path.sep).join('/') : uri;
+};
+
+function formatHuman(problems: CheckProblem[], rootPath: string): string {
+  const lines = problems.map(({ rule, severity, message, location }) => {
+    const { line, character } = location.range.start;
+    return `${getFile(location.uri, rootPath)}:${line + 1}:${character + 1}  ${severity}  ${message}  ${rule}`;
+  });
+
+  const errors = problems.filter((problem) => problem.severity === 'error').length;
+  const warnings = problems.length - errors;
+  lines.push(
+    problems.length === 0
+      ? 'No problems found.'
+      : `${problems.length} problem${problems.length === 1 ? '' : 's'} (${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'})`
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Static Analysis Results Interchange Format, shown by code scanning
+ * tools like GitHub's in pull requests
+ */
+function formatSARIF(problems: CheckProblem[], rootPath: string): string {
+  const rules = Object.keys(CHECK_RULES) as CheckRule[];
+
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'css-variables-language-server',
+            informationUri: 'https://github.com/vunguyentuan/vscode-css-variables',
+            rules: rules.map((rule) => ({
+              id: rule,
+              shortDescription: { text: CHECK_RULES[rule].description },
+              defaultConfiguration: { level: CHECK_RULES[rule].severity },
+            })),
+          },
+        },
+        results: problems.map(({ rule, severity, message, location }) => ({
+          ruleId: rule,
+          ruleIndex: rules.indexOf(rule),
+          level: severity,
+          message: { text: message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: getFile(location.uri, rootPath) },
+                region: {
+                  startLine: location.range.start.line + 1,
+                  startColumn: location.range.start.character + 1,
+                  endLine: location.range.end.line + 1,
+                  endColumn: location.range.end.character + 1,
+                },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  }, null, 2);
+}
+
+/**
+ * Formats the problems found by `checkVariables`, with paths relative to
+ * the checked folder
+ */
+export function formatCheckProblems(
+  problems: CheckProblem[],
+  format: CheckFormat,
+  rootPath: string
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(
+        problems.map(({ rule, severity, message, location }) => ({
+          rule,
+          severity,
+          message,
+          file: getFile(location.uri, rootPath),
+          line: location.range.start.line + 1,
+          column: location.range.start.character + 1,
+        })),
+        null,
+        2
+      );
+    case 'sarif':
+      return formatSARIF(problems, rootPath);
+    default:
+      return formatHuman(problems, rootPath);
+  }
+}
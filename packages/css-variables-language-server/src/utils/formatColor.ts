@@ -0,0 +1,77 @@
+import { Color } from 'vscode-languageserver/node';
+import * as culori from 'culori';
+
+export type ColorNotation =
+  | 'hex'
+  | 'rgb'
+  | 'hsl'
+  | 'hwb'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch';
+
+// notations offered by the color picker, in this order
+const PRESENTATION_NOTATIONS: ColorNotation[] = ['hex', 'rgb', 'hsl', 'oklch'];
+
+const roundChannel = culori.round(4);
+
+/**
+ * Detects the notation a color value is written in
+ * Examples:
+ *   "#fff" => "hex"
+ *   "rgba(0, 0, 0, 0.5)" => "rgb"
+ *   "red" => undefined
+ */
+export function getColorNotation(value: string): ColorNotation | undefined {
+  const trimmed = value.trim().toLowerCase();
+
+  if (trimmed.startsWith('#')) {
+    return 'hex';
+  }
+
+  const match = trimmed.match(/^(rgb|hsl|hwb|lab|lch|oklab|oklch)a?\(/);
+  return match ? (match[1] as ColorNotation) : undefined;
+}
+
+export function formatColor(color: Color, notation: ColorNotation): string {
+  const rgb: culori.RgbColor = {
+    mode: 'rgb',
+    r: color.red,
+    g: color.green,
+    b: color.blue,
+    alpha: color.alpha,
+  };
+
+  switch (notation) {
+    case 'hex':
+      return color.alpha < 1 ? culori.formatHex8(rgb) : culori.formatHex(rgb);
+    case 'rgb':
+      return culori.formatRgb(rgb);
+    case 'hsl':
+      return culori.formatHsl(rgb);
+    default: {
+      const converted = culori.converter(notation)(rgb);
+      const rounded = Object.fromEntries(
+        Object.entries(converted).map(([key, channel]) => [
+          key,
+          typeof channel === 'number' ? roundChannel(channel) : channel,
+        ])
+      );
+      return culori.formatCss(rounded as culori.Color);
+    }
+  }
+}
+
+/**
+ * Returns the color formatted in every notation offered by the color
+ * picker, the notation of `originalValue` comes first when it is known
+ */
+export function getColorPresentations(color: Color, originalValue?: string): string[] {
+  const originalNotation = originalValue && getColorNotation(originalValue);
+  const notations = originalNotation
+    ? [originalNotation, ...PRESENTATION_NOTATIONS.filter((notation) => notation !== originalNotation)]
+    : PRESENTATION_NOTATIONS;
+
+  return notations.map((notation) => formatColor(color, notation));
+}
@@ -0,0 +1,25 @@
+import { CSSVariable } from '../CSSVariableManager';
+
+/**
+ * Renders every definition of a variable as one line of CSS,
+ * so definitions from different selectors can be told apart
+ * Example:
+ *   ":root { --bg: #fff; }"
+ *   "@media (prefers-color-scheme: dark) { .dark { --bg: #000; } }"
+ */
+export function formatDefinitions(definitions: CSSVariable[]): string {
+  return definitions
+    .map((definition) => {
+      let line = `${definition.symbol.name}: ${definition.symbol.value};`;
+
+      if (definition.selector) {
+        line = `${definition.selector} { ${line} }`;
+      }
+
+      return (definition.atRules || []).reduceRight(
+        (inner, atRule) => `${atRule} { ${inner} }`,
+        line
+      );
+    })
+    .join('\n');
+}
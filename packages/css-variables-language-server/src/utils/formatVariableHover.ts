@@ -0,0 +1,93 @@
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+import { CSSPropertyRegistration, CSSVariable } from '../CSSVariableManager';
+import { getResolutionChain } from './resolveVariableValue';
+import { formatColor } from './formatColor';
+
+function formatLocation(definition: CSSVariable['definition']): string {
+  const line = definition.range.start.line + 1;
+  const fileName = path.basename(URI.parse(definition.uri).path);
+
+  return `[${fileName}:${line}](${definition.uri}#L${line})`;
+}
+
+function formatContext(cssVariable: CSSVariable): string {
+  return [...(cssVariable.atRules || []), cssVariable.selector]
+    .filter(Boolean)
+    .map((context) => `\`${context}\``)
+    .join(' ');
+}
+
+function createSwatch(hex: string): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12"><rect width="12" height="12" fill="${hex}" stroke="gray"/></svg>`;
+
+  return `![](data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')})`;
+}
+
+/**
+ * Describes the `@property` registration of a variable in one line
+ */
+export function formatPropertyRegistration(registration: CSSPropertyRegistration): string {
+  const initialValue =
+    registration.initialValue !== undefined
+      ? `, initial value \`${registration.initialValue}\``
+      : '';
+
+  return `Registered with \`@property\`: syntax \`${registration.syntax}\`, inherits \`${registration.inherits}\`${initialValue}`;
+}
+
+/**
+ * Builds the markdown hover of a variable: its declaration, the chain of
+ * var() references it resolves through, the computed value, its
+ * `@property` registration, where it is defined and the definitions
+ * overriding it in other contexts
+ */
+export function formatVariableHover(
+  cssVariable: CSSVariable,
+  definitions: CSSVariable[],
+  variableMap: Map<string, CSSVariable>,
+  registration?: CSSPropertyRegistration
+): string {
+  const { name, value } = cssVariable.symbol;
+  const chain = getResolutionChain(value, variableMap);
+  const computedValue = chain[chain.length - 1];
+
+  const lines = ['```css', `${name}: ${value};`, '```'];
+
+  if (chain.length > 1) {
+    lines.push('', `Resolves: ${chain.map((step) => `\`${step}\``).join(' → ')}`);
+  }
+
+  lines.push('', `Computed value: \`${computedValue}\``);
+
+  if (cssVariable.color) {
+    const hex = formatColor(cssVariable.color, 'hex');
+    lines.push(
+      '',
+      `${createSwatch(hex)} \`${hex}\` · \`${formatColor(cssVariable.color, 'oklch')}\``
+    );
+  }
+
+  if (registration) {
+    lines.push('', formatPropertyRegistration(registration));
+  }
+
+  const context = formatContext(cssVariable);
+  lines.push(
+    '',
+    `Defined in ${formatLocation(cssVariable.definition)}${context ? ` under ${context}` : ''}`
+  );
+
+  const overrides = definitions.filter((definition) => definition !== cssVariable);
+  if (overrides.length > 0) {
+    lines.push('', 'Also defined:');
+    overrides.forEach((definition) => {
+      const overrideContext = formatContext(definition);
+      lines.push(
+        `- ${overrideContext ? `${overrideContext} ` : ''}\`${definition.symbol.value}\` in ${formatLocation(definition.definition)}`
+      );
+    });
+  }
+
+  return lines.join('\n');
+}
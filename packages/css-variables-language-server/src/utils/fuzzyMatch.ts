@@ -0,0 +1,20 @@
+/**
+ * Whether all characters of the query appear in the text in the same
+ * order, ignoring case. An empty query matches everything.
+ * Examples:
+ *   fuzzyMatch("cbr", "--color-brand") => true
+ *   fuzzyMatch("rbc", "--color-brand") => false
+ */
+export function fuzzyMatch(query: string, text: string): boolean {
+  const normalizedQuery = query.toLowerCase();
+  const normalizedText = text.toLowerCase();
+
+  let queryIndex = 0;
+  for (let i = 0; i < normalizedText.length && queryIndex < normalizedQuery.length; i++) {
+    if (normalizedText[i] === normalizedQuery[queryIndex]) {
+      queryIndex++;
+    }
+  }
+
+  return queryIndex === normalizedQuery.length;
+}
@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import path from 'path';
+
+const quote = (name: string) => `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/**
+ * Generates TypeScript declarations with a union of the given custom
+ * property names, so misspelled names in CSS-in-JS and inline styles are
+ * reported by tsc
+ * Example:
+ *   ["--brand"] => "export type CSSVariableName =\n  | '--brand';\n..."
+ */
+export function generateTypeDeclarations(names: Iterable<string>): string {
+  const sortedNames = Array.from(new Set(names)).sort();
+  const union = sortedNames.length > 0
+    ? sortedNames.map((name) => `\n  | ${quote(name)}`).join('')
+    : ' never';
+
+  return `// Generated by css-variables-language-server, do not edit.
+
+/** Every custom property declared in the indexed stylesheets */
+export type CSSVariableName =${union};
+
+/** A \`var()\` reference to a declared custom property */
+export type CSSVariableReference =
+  | \`var(\${CSSVariableName})\`
+  | \`var(\${CSSVariableName}, \${string})\`;
+`;
+}
+
+/**
+ * Writes the declarations to the given file unless it already has the same
+ * content, so tools watching the file are not triggered for nothing.
+ * Returns whether the file was written
+ */
+export async function writeTypeDeclarations(
+  outputPath: string,
+  names: Iterable<string>
+): Promise<boolean> {
+  const content = generateTypeDeclarations(names);
+
+  try {
+    if ((await fs.promises.readFile(outputPath, 'utf8')) === content) {
+      return false;
+    }
+  } catch {
+    // the file does not exist yet
+  }
+
+  await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.promises.writeFile(outputPath, content);
+  return true;
+}
@@ -0,0 +1,38 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { PreprocessorSyntax } from '../CSSVariableManager';
+
+export const PREPROCESSOR_PREFIXES: Record<PreprocessorSyntax, string> = {
+  sass: '$',
+  less: '@',
+};
+
+// Sass variables are only visible to scss documents and Less variables
+// to less documents
+export function getPreprocessorSyntax(document: TextDocument): PreprocessorSyntax | undefined {
+  if (document.languageId === 'scss') {
+    return 'sass';
+  }
+
+  if (document.languageId === 'less') {
+    return 'less';
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the Sass or Less variable name at the start of the word, the name
+ * is only the prefix while it is being typed
+ * Examples:
+ *   "$brand;" => { syntax: "sass", name: "$brand" }
+ *   "$" => { syntax: "sass", name: "$" }
+ */
+export function getPreprocessorVariableName(document: TextDocument, word: string) {
+  const syntax = getPreprocessorSyntax(document);
+  if (!syntax || !word.startsWith(PREPROCESSOR_PREFIXES[syntax])) {
+    return null;
+  }
+
+  const match = word.match(/^[$@][\w-]*/);
+  return match ? { syntax, name: match[0] } : null;
+}
@@ -0,0 +1,31 @@
+export interface SassMapModule {
+  /** how `map.get` is called in the stylesheet */
+  getFunction: string;
+  /** where `@use 'sass:map';` has to be inserted, when it is missing */
+  useOffset?: number;
+}
+
+const MAP_USE_RE = /@use\s+(["'])sass:map\1(?:\s+as\s+([\w-]+|\*))?/;
+
+// @use rules must come first, only @charset and @forward may precede them
+const LEADING_RULES_RE = /^(?:\s*(?:\/\/[^\n]*|\/\*[\s\S]*?\*\/|@(?:charset|use|forward)\b[^;]*;))*/;
+
+/**
+ * Returns how the `sass:map` module is loaded by a stylesheet, so the
+ * entries of a map can be read with the stylesheet's namespace
+ * Examples:
+ *   "@use 'sass:map' as m;" => { getFunction: "m.get" }
+ *   "@use 'theme';\na { }" => { getFunction: "map.get", useOffset: 13 }
+ */
+export function getSassMapModule(content: string): SassMapModule {
+  const use = content.match(MAP_USE_RE);
+  if (use) {
+    const namespace = use[2] || 'map';
+    return { getFunction: namespace === '*' ? 'get' : `${namespace}.get` };
+  }
+
+  return {
+    getFunction: 'map.get',
+    useOffset: content.match(LEADING_RULES_RE)[0].length,
+  };
+}
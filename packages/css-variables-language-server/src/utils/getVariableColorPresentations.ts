@@ -0,0 +1,116 @@
+import { Color, ColorPresentation, Range, TextEdit } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { CSSVariable } from '../CSSVariableManager';
+import { findDeclarationValue } from './findDeclarationValue';
+import { findVariableUsages } from './findVariableUsages';
+import { getColorPresentations } from './formatColor';
+
+// a value that is nothing but a reference to another variable
+const REFERENCE_RE = /^(?:var\(\s*(--[\w-]+)\s*\)|([$@][\w-]+))$/;
+
+/**
+ * Follows variables whose value only references another variable, e.g.
+ * `--accent: var(--brand)` or `$accent: $brand`, to the one declaring the
+ * color
+ */
+function findColorDeclaration(
+  variables: Map<string, CSSVariable>,
+  variable: CSSVariable
+): CSSVariable {
+  const visited = new Set<string>();
+  let current = variable;
+
+  while (!visited.has(current.symbol.name)) {
+    visited.add(current.symbol.name);
+
+    const match = current.symbol.value.trim().match(REFERENCE_RE);
+    const referenced = match && variables.get(match[1] || match[2]);
+    if (!referenced) {
+      break;
+    }
+    current = referenced;
+  }
+
+  return current;
+}
+
+/**
+ * Returns the range of the whole usage of the variable named in the given
+ * range, the `var()` call of a custom property or the name of a Sass or
+ * Less variable
+ */
+function getUsageRange(document: TextDocument, range: Range): Range {
+  const text = document.getText();
+  const start = document.offsetAt(range.start);
+  const usage = findVariableUsages(text).find((candidate) => candidate.start === start);
+  if (!usage) {
+    return range;
+  }
+
+  return {
+    start: document.positionAt(text.lastIndexOf('var(', usage.start)),
+    end: document.positionAt(usage.callEnd),
+  };
+}
+
+/**
+ * Returns the presentations of a color picked for a swatch of the document.
+ * On a declaration value the value is replaced, on a variable usage the
+ * declaration of the variable is edited when it is in the same document,
+ * otherwise the usage itself is replaced by the color, since a color
+ * presentation cannot edit other documents
+ */
+export function getVariableColorPresentations(
+  document: TextDocument,
+  range: Range,
+  color: Color,
+  variables: Map<string, CSSVariable>
+): ColorPresentation[] {
+  const text = document.getText(range);
+  if (!text) {
+    return [];
+  }
+
+  const variable = variables.get(text);
+  if (!variable) {
+    return getColorPresentations(color, text).map((label) => ({
+      label,
+      textEdit: TextEdit.replace(range, label),
+    }));
+  }
+
+  const colorDeclaration = findColorDeclaration(variables, variable);
+  const { definition } = colorDeclaration;
+
+  if (definition.uri !== document.uri) {
+    const usageRange = getUsageRange(document, range);
+    return getColorPresentations(color, colorDeclaration.symbol.value).map((label) => ({
+      label,
+      textEdit: TextEdit.replace(usageRange, label),
+    }));
+  }
+
+  const documentText = document.getText();
+  let declarationOffset = document.offsetAt(definition.range.start);
+
+  // the definition of an `@property` rule points at its name
+  if (colorDeclaration.isInitialValue) {
+    declarationOffset = documentText.indexOf('initial-value', declarationOffset);
+  }
+
+  const value = declarationOffset !== -1 ? findDeclarationValue(documentText, declarationOffset) : null;
+  if (!value) {
+    return [];
+  }
+
+  const valueRange = {
+    start: document.positionAt(value.start),
+    end: document.positionAt(value.end),
+  };
+
+  return getColorPresentations(color, document.getText(valueRange)).map((label) => ({
+    label,
+    textEdit: TextEdit.replace(range, text),
+    additionalTextEdits: [TextEdit.replace(valueRange, label)],
+  }));
+}
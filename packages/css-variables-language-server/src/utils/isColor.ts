@@ -1,9 +1,12 @@
 import * as culori from 'culori';
 
 const isColor = (str: string) => {
-  const colorTemp = culori.parse(str);
-
-  return !!colorTemp;
+  try {
+    return !!culori.parse(str);
+  } catch {
+    // culori throws on some functions it does not know, e.g. `url(x)`
+    return false;
+  }
 };
 
-export default isColor;
\ No newline at end of file
+export default isColor;
@@ -0,0 +1,31 @@
+const LENGTH_UNITS = [
+  'px', 'em', 'rem', 'ex', 'ch', 'lh', 'rlh',
+  'vw', 'vh', 'vi', 'vb', 'vmin', 'vmax',
+  'svw', 'svh', 'lvw', 'lvh', 'dvw', 'dvh',
+  'cqw', 'cqh', 'cqi', 'cqb', 'cqmin', 'cqmax',
+  'cm', 'mm', 'q', 'in', 'pt', 'pc',
+];
+
+const LENGTH_PATTERN = new RegExp(
+  `^[-+]?(\\d+|\\d*\\.\\d+)(e[-+]?\\d+)?(${LENGTH_UNITS.join('|')})$`,
+  'i'
+);
+
+const PERCENTAGE_PATTERN = /^[-+]?(\d+|\d*\.\d+)(e[-+]?\d+)?%$/i;
+
+/**
+ * Whether the value is a single length, e.g. "16px", "-0.5rem" or "0",
+ * percentages count as lengths unless `allowPercentage` is false
+ */
+const isLength = (str: string, allowPercentage = true) => {
+  const value = str.trim();
+
+  return (
+    value === '0' ||
+    LENGTH_PATTERN.test(value) ||
+    (allowPercentage && PERCENTAGE_PATTERN.test(value)) ||
+    /^calc\(.*\)$/i.test(value)
+  );
+};
+
+export default isLength;
@@ -0,0 +1,137 @@
+import isColor from './isColor';
+import isLength from './isLength';
+
+const NUMBER = '[-+]?(?:\\d+|\\d*\\.\\d+)(?:e[-+]?\\d+)?';
+
+const dimension = (units: string[]) =>
+  new RegExp(`^${NUMBER}(?:${units.join('|')})$`, 'i');
+
+const PERCENTAGE = dimension(['%']);
+const ANGLE = dimension(['deg', 'grad', 'rad', 'turn']);
+const TIME = dimension(['s', 'ms']);
+const RESOLUTION = dimension(['dpi', 'dpcm', 'dppx', 'x']);
+
+const CSS_WIDE_KEYWORDS = ['initial', 'inherit', 'unset', 'revert', 'revert-layer'];
+
+const isMathFunction = (value: string) => /^(calc|min|max|clamp)\(.*\)$/i.test(value);
+const isColorFunction = (value: string) =>
+  /^(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color|color-mix|light-dark)\(.*\)$/i.test(value);
+const isNumber = (value: string) => new RegExp(`^${NUMBER}$`, 'i').test(value);
+const isPercentage = (value: string) => PERCENTAGE.test(value);
+
+const matchesColor = (value: string) =>
+  ['currentcolor', 'transparent'].includes(value.toLowerCase()) ||
+  isColor(value) ||
+  // color-mix(), light-dark() and relative colors are not parsed by culori,
+  // their color is unknown rather than wrong
+  isColorFunction(value);
+
+const TYPE_CHECKS: Record<string, (value: string) => boolean> = {
+  number: isNumber,
+  integer: (value) => /^[-+]?\d+$/.test(value),
+  length: (value) => isLength(value, false),
+  percentage: isPercentage,
+  'length-percentage': (value) => isLength(value),
+  angle: (value) => value === '0' || ANGLE.test(value),
+  time: (value) => TIME.test(value),
+  resolution: (value) => RESOLUTION.test(value),
+  color: matchesColor,
+  'custom-ident': (value) => /^-?[a-z_][\w-]*$/i.test(value),
+  string: (value) => /^(['"]).*\1$/.test(value),
+  url: (value) => /^url\(.*\)$/i.test(value),
+  image: (value) => /^(url|[\w-]*gradient|image-set|image)\(.*\)$/i.test(value),
+  'transform-function': (value) => /^[a-z0-9-]+\(.*\)$/i.test(value),
+};
+
+// types whose values can be computed by math functions
+const NUMERIC_TYPES = [
+  'number', 'integer', 'length', 'percentage', 'length-percentage', 'angle', 'time', 'resolution',
+];
+
+/**
+ * Splits a value on the separator, ignoring separators inside parentheses
+ */
+function splitTopLevel(value: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    }
+
+    if (depth === 0 && separator.test(char)) {
+      if (current.trim()) {
+        parts.push(current.trim());
+      }
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+
+  return parts;
+}
+
+function matchesComponent(value: string, component: string): boolean {
+  const typeMatch = component.match(/^<([\w-]+)>$/);
+
+  if (!typeMatch) {
+    // a literal keyword
+    return value === component;
+  }
+
+  const type = typeMatch[1];
+  if (NUMERIC_TYPES.includes(type) && isMathFunction(value)) {
+    return true;
+  }
+
+  if (type === 'transform-list') {
+    return splitTopLevel(value, /\s/).every(TYPE_CHECKS['transform-function']);
+  }
+
+  const check = TYPE_CHECKS[type];
+  // unknown types are not reported
+  return check ? check(value) : true;
+}
+
+/**
+ * Whether a value matches the `syntax` descriptor of an `@property` rule
+ * Examples:
+ *   matchesPropertySyntax("45deg", "<angle>") => true
+ *   matchesPropertySyntax("1px 2px", "<length>+") => true
+ *   matchesPropertySyntax("red", "<length> | auto") => false
+ */
+export function matchesPropertySyntax(value: string, syntax: string): boolean {
+  const normalizedSyntax = syntax.trim().replace(/^['"]|['"]$/g, '').trim();
+  const normalizedValue = value.trim();
+
+  if (normalizedSyntax === '*' || CSS_WIDE_KEYWORDS.includes(normalizedValue.toLowerCase())) {
+    return true;
+  }
+
+  return normalizedSyntax.split('|').some((alternative) => {
+    const component = alternative.trim();
+
+    if (component.endsWith('+')) {
+      return splitTopLevel(normalizedValue, /\s/).every((part) =>
+        matchesComponent(part, component.slice(0, -1))
+      );
+    }
+
+    if (component.endsWith('#')) {
+      return splitTopLevel(normalizedValue, /,/).every((part) =>
+        matchesComponent(part, component.slice(0, -1))
+      );
+    }
+
+    return matchesComponent(normalizedValue, component);
+  });
+}
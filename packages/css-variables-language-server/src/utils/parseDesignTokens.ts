@@ -0,0 +1,118 @@
+import { Node, parseTree, findNodeAtLocation, getNodeValue } from 'jsonc-parser';
+
+export interface DesignToken {
+  /** path of the token in the file, e.g. ["color", "brand", "500"] */
+  path: string[];
+  value: string;
+  /** offset of the token key in the file */
+  offset: number;
+  length: number;
+}
+
+/**
+ * Converts a token value to a CSS value, composite tokens that have no
+ * single CSS representation are skipped
+ */
+function toCSSValue(value: unknown): string | undefined {
+  if (typeof value === 'string' || typeof value === 'number') {
+    return String(value);
+  }
+
+  // font families
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+    return value.join(', ');
+  }
+
+  if (value && typeof value === 'object') {
+    const token = value as Record<string, unknown>;
+
+    // dimensions, e.g. { "value": 16, "unit": "px" }
+    if (typeof token.value === 'number' && typeof token.unit === 'string') {
+      return `${token.value}${token.unit}`;
+    }
+
+    // colors, e.g. { "colorSpace": "srgb", "components": [1, 0, 0], "hex": "#ff0000" }
+    if (typeof token.hex === 'string') {
+      return token.hex;
+    }
+  }
+
+  return undefined;
+}
+
+function collectTokens(node: Node, path: string[], tokens: DesignToken[]) {
+  node.children?.forEach((property) => {
+    const [keyNode, valueNode] = property.children || [];
+    const key = keyNode?.value;
+
+    // `$type`, `$description` and other metadata of groups
+    if (typeof key !== 'string' || key.startsWith('$') || valueNode?.type !== 'object') {
+      return;
+    }
+
+    // W3C Design Tokens use `$value`, Style Dictionary uses `value`
+    const tokenValueNode =
+      findNodeAtLocation(valueNode, ['$value']) || findNodeAtLocation(valueNode, ['value']);
+
+    if (!tokenValueNode) {
+      collectTokens(valueNode, [...path, key], tokens);
+      return;
+    }
+
+    const value = toCSSValue(getNodeValue(tokenValueNode));
+    if (value !== undefined) {
+      tokens.push({
+        path: [...path, key],
+        value,
+        offset: keyNode.offset,
+        length: keyNode.length,
+      });
+    }
+  });
+}
+
+/**
+ * Lists every token of a W3C Design Tokens (DTCG) or Style Dictionary
+ * JSON file
+ */
+export function parseDesignTokens(content: string): DesignToken[] {
+  const root = parseTree(content);
+  const tokens: DesignToken[] = [];
+
+  if (root?.type === 'object') {
+    collectTokens(root, [], tokens);
+  }
+
+  return tokens;
+}
+
+/**
+ * Maps a token path to the custom property generated for it
+ * Example:
+ *   ["color", "brand", "500"] => "--color-brand-500"
+ */
+export function getTokenVariableName(
+  path: string[],
+  prefix = '',
+  separator = '-'
+): string {
+  const segments = prefix ? [prefix, ...path] : path;
+
+  return `--${segments.map((segment) => segment.replace(/\s+/g, separator)).join(separator)}`;
+}
+
+/**
+ * Replaces `{alias.path}` references with the matching `var()`
+ * Example:
+ *   "{color.brand.500}" => "var(--color-brand-500)"
+ */
+export function resolveTokenAliases(
+  value: string,
+  prefix = '',
+  separator = '-'
+): string {
+  return value.replace(
+    /\{([^{}]+)\}/g,
+    (_, alias: string) => `var(${getTokenVariableName(alias.split('.'), prefix, separator)})`
+  );
+}
@@ -0,0 +1,78 @@
+export interface SassMapEntry {
+  key: string;
+  value: string;
+  /** offset of the key inside the parsed map value */
+  offset: number;
+}
+
+/**
+ * Splits a Sass map value into its top level entries, nested maps are
+ * returned as the value of their entry. The offset of a quoted key is the
+ * one of the key, not of its quote
+ * Example:
+ *   '("primary": $brand, secondary: #0f0) !default' => [
+ *     { key: "primary", value: "$brand", offset: 2 },
+ *     { key: "secondary", value: "#0f0", offset: 20 },
+ *   ]
+ */
+export function parseSassMap(declarationValue: string): SassMapEntry[] {
+  // flags such as `!default` follow the map
+  const value = declarationValue.replace(/(?:\s*!(?:default|global))+\s*$/i, '');
+  const trimmed = value.trim();
+  if (!trimmed.startsWith('(') || !trimmed.endsWith(')')) {
+    return [];
+  }
+
+  const contentStart = value.indexOf('(') + 1;
+  const contentEnd = value.lastIndexOf(')');
+  const entries: SassMapEntry[] = [];
+
+  let depth = 0;
+  let quote: string | null = null;
+  let entryStart = contentStart;
+
+  const addEntry = (end: number) => {
+    const entry = value.slice(entryStart, end);
+    const colonIndex = entry.indexOf(':');
+
+    if (colonIndex !== -1) {
+      const rawKey = entry.slice(0, colonIndex);
+      const trimmedKey = rawKey.trim();
+      const key = trimmedKey.replace(/^['"]|['"]$/g, '');
+      const entryValue = entry.slice(colonIndex + 1).trim();
+      const quoteLength = /^['"]/.test(trimmedKey) ? 1 : 0;
+
+      if (key && entryValue) {
+        entries.push({
+          key,
+          value: entryValue,
+          offset: entryStart + rawKey.length - rawKey.trimStart().length + quoteLength,
+        });
+      }
+    }
+
+    entryStart = end + 1;
+  };
+
+  for (let i = contentStart; i < contentEnd; i++) {
+    const char = value.charAt(i);
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      addEntry(i);
+    }
+  }
+
+  addEntry(contentEnd);
+
+  return entries;
+}
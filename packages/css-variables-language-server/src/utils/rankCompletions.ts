@@ -0,0 +1,146 @@
+import type { CSSVariable } from '../CSSVariableManager';
+import isLength from './isLength';
+import { uriToPath } from './protocol';
+import { resolveVariableValue } from './resolveVariableValue';
+
+export type ValueKind = 'color' | 'length'
+
+export type CompletionRankingContext = {
+  /** the document completion was requested in */
+  filePath?: string
+  /** files imported by the document, directly or not */
+  reachableFiles?: Set<string>
+  /** what the property being edited expects, e.g. a color after `color:` */
+  valueKind?: ValueKind
+  usageCounts: Map<string, number>
+  /** names of the recently accepted completions, most recent first */
+  recentNames: string[]
+  allVariables: Map<string, CSSVariable>
+}
+
+const COLOR_PROPERTIES = [
+  'color',
+  'background',
+  'fill',
+  'stroke',
+  'box-shadow',
+  'text-shadow',
+  'outline',
+  'border',
+  'border-top',
+  'border-right',
+  'border-bottom',
+  'border-left',
+];
+
+const LENGTH_PROPERTIES = [
+  'width',
+  'height',
+  'top',
+  'right',
+  'bottom',
+  'left',
+  'inset',
+  'gap',
+  'font-size',
+  'line-height',
+  'letter-spacing',
+  'text-indent',
+  'flex-basis',
+  'outline-offset',
+];
+
+const LENGTH_PROPERTY_PATTERN = /^(margin|padding|inset|scroll-margin|scroll-padding)(-|$)|^(min|max)-(width|height|inline-size|block-size)$|(-width|-radius|-gap|-size)$/;
+
+// the last `property:` before the cursor whose value reaches the cursor
+const PROPERTY_BEFORE_CURSOR = /([a-zA-Z-]+)\s*:\s*["'`]?[^:;{}]*$/;
+
+// how far back the property of the current declaration is looked for
+const PROPERTY_LOOKBEHIND = 300;
+
+// score of each signal, a higher score ranks first
+const VALUE_KIND_SCORE = 400;
+const CURRENT_FILE_SCORE = 300;
+const IMPORTED_FILE_SCORE = 200;
+const RECENT_SCORE = 100;
+const MAX_USAGE_SCORE = 99;
+const MAX_SCORE = VALUE_KIND_SCORE + CURRENT_FILE_SCORE + RECENT_SCORE + MAX_USAGE_SCORE;
+
+/**
+ * Returns the property of the declaration being edited, in kebab case
+ * Examples:
+ *   "a { color: var(--" => "color"
+ *   "style={{ backgroundColor: 'var(--" => "background-color"
+ */
+export function getCurrentProperty(text: string, offset: number): string | undefined {
+  const match = text.slice(Math.max(0, offset - PROPERTY_LOOKBEHIND), offset).match(PROPERTY_BEFORE_CURSOR);
+  return match?.[1].replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`).toLowerCase();
+}
+
+/**
+ * Returns the kind of value a property expects, when it is a color or a
+ * length
+ */
+export function getValueKind(property: string | undefined): ValueKind | undefined {
+  if (!property) {
+    return undefined;
+  }
+
+  if (COLOR_PROPERTIES.includes(property) || property.endsWith('-color')) {
+    return 'color';
+  }
+
+  if (LENGTH_PROPERTIES.includes(property) || LENGTH_PROPERTY_PATTERN.test(property)) {
+    return 'length';
+  }
+
+  return undefined;
+}
+
+/**
+ * Scores a variable for completion from where it is declared, the property
+ * being edited, how often it is used and whether it was accepted recently
+ */
+export function getCompletionScore(
+  variable: CSSVariable,
+  context: CompletionRankingContext
+): number {
+  const { name, value } = variable.symbol;
+  let score = 0;
+
+  if (context.valueKind === 'color' && variable.color) {
+    score += VALUE_KIND_SCORE;
+  } else if (
+    context.valueKind === 'length' &&
+    isLength(resolveVariableValue(value, context.allVariables))
+  ) {
+    score += VALUE_KIND_SCORE;
+  }
+
+  const filePath = uriToPath(variable.definition.uri);
+  if (filePath && filePath === context.filePath) {
+    score += CURRENT_FILE_SCORE;
+  } else if (filePath && context.reachableFiles?.has(filePath)) {
+    score += IMPORTED_FILE_SCORE;
+  }
+
+  const recentIndex = context.recentNames.indexOf(name);
+  if (recentIndex !== -1) {
+    score += Math.max(1, RECENT_SCORE - recentIndex * 5);
+  }
+
+  const usageCount = context.usageCounts.get(name) || 0;
+  score += Math.min(MAX_USAGE_SCORE, Math.round(Math.log2(usageCount + 1) * 10));
+
+  return score;
+}
+
+/**
+ * Turns a score into a sortText, items with the same score are sorted by
+ * their label
+ * Example:
+ *   800 => "0099"
+ */
+export function toSortText(score: number): string {
+  return String(MAX_SCORE - score).padStart(4, '0');
+}
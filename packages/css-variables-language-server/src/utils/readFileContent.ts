@@ -0,0 +1,18 @@
+import * as fs from 'fs';
+
+/**
+ * Reads a file with its modification time, which is taken before the read
+ * so that a change made in between makes it look outdated rather than
+ * current. Returns undefined when the file cannot be read, e.g. once deleted
+ */
+export async function readFileContent(
+  filePath: string
+): Promise<{ content: string, mtime: number } | undefined> {
+  try {
+    const { mtimeMs } = await fs.promises.stat(filePath);
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    return { content, mtime: mtimeMs };
+  } catch {
+    return undefined;
+  }
+}
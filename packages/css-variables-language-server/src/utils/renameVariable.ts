@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import fastGlob from 'fast-glob';
+import { pathToFileURL } from 'url';
+import {
+  ErrorCodes,
+  Location,
+  Range,
+  ResponseError,
+  TextEdit,
+  WorkspaceEdit,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type CSSVariableManager from '../CSSVariableManager';
+import type { CSSVariablesSettings } from '../CSSVariableManager';
+import { escapeRegExp } from './escapeRegExp';
+
+// files that may reference variables without being indexed, e.g. components
+// and scripts setting inline styles
+const REFERENCE_FILES = ['**/*.{css,scss,sass,less,html,vue,svelte,astro,js,jsx,ts,tsx,mjs,cjs}'];
+
+// what comes right before or after a name that references the variable
+const USAGE_BEFORE_RE = /var\(\s*$/;
+const PROPERTY_API_BEFORE_RE = /(?:setProperty|getPropertyValue|removeProperty)\(\s*["'`]$/;
+const REGISTRATION_BEFORE_RE = /@property\s+$/;
+const DECLARATION_AFTER_RE = /^["'`]?\s*:/;
+
+export type RenameVariableOptions = {
+  cssVariableManager: CSSVariableManager
+  name: string
+  newName: string
+  /** workspace folders searched for references outside the index */
+  folderPaths: string[]
+  settings: CSSVariablesSettings
+  /** the unsaved content of open documents */
+  getOpenContent?: (filePath: string) => string | undefined
+}
+
+/**
+ * Finds the references to a variable in a text: `var()` usages, with or
+ * without fallback, declarations in stylesheets and style objects,
+ * `@property` registrations and the style APIs of the DOM
+ * Example:
+ *   "a { --gap: 1px; margin: var(--gap, 2px); }" => the offsets of both "--gap"
+ */
+export function findReferencesInText(text: string, name: string): { start: number, end: number }[] {
+  const references: { start: number, end: number }[] = [];
+  const re = new RegExp(`(?<![\\w-])${escapeRegExp(name)}(?![\\w-])`, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = re.exec(text)) !== null) {
+    const start = match.index;
+    const end = start + name.length;
+    const before = text.slice(Math.max(0, start - 40), start);
+
+    if (
+      USAGE_BEFORE_RE.test(before) ||
+      PROPERTY_API_BEFORE_RE.test(before) ||
+      REGISTRATION_BEFORE_RE.test(before) ||
+      DECLARATION_AFTER_RE.test(text.slice(end, end + 20))
+    ) {
+      references.push({ start, end });
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Finds the references to a variable in the files of the workspace folders,
+ * open documents are searched in their unsaved content
+ */
+async function findWorkspaceReferences({
+  name,
+  folderPaths,
+  settings,
+  getOpenContent,
+}: RenameVariableOptions): Promise<Location[]> {
+  const locations: Location[] = [];
+
+  for (const folderPath of folderPaths) {
+    const files = await fastGlob([...REFERENCE_FILES, ...settings.lookupFiles], {
+      onlyFiles: true,
+      cwd: folderPath,
+      ignore: settings.blacklistFolders,
+      absolute: true,
+    });
+
+    for (const filePath of files) {
+      let content = getOpenContent?.(filePath);
+      if (content === undefined) {
+        try {
+          content = await fs.promises.readFile(filePath, 'utf8');
+        } catch {
+          continue;
+        }
+      }
+
+      if (!content.includes(name)) {
+        continue;
+      }
+
+      const uri = pathToFileURL(filePath).toString();
+      const document = TextDocument.create(uri, '', 0, content);
+      findReferencesInText(content, name).forEach(({ start, end }) => {
+        locations.push({
+          uri,
+          range: Range.create(document.positionAt(start), document.positionAt(end)),
+        });
+      });
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Returns the edit renaming a variable in its declarations and in every
+ * reference of the index and the workspace, or the reason it cannot be
+ * renamed
+ */
+export async function renameVariable(
+  options: RenameVariableOptions
+): Promise<WorkspaceEdit | ResponseError<void>> {
+  const { cssVariableManager, name } = options;
+  const newName = options.newName.trim();
+
+  if (!/^--[\w-]+$/.test(newName)) {
+    return new ResponseError(
+      ErrorCodes.InvalidParams,
+      `'${newName}' is not a valid CSS variable name.`
+    );
+  }
+
+  const definitions = cssVariableManager.getDefinitions(name);
+
+  // the names of variables generated from design tokens follow their path
+  // in the JSON file, renaming them would have to move the token
+  if (definitions.some((definition) => definition.definition.uri.endsWith('.json'))) {
+    return new ResponseError(
+      ErrorCodes.InvalidRequest,
+      `CSS variable '${name}' is generated from a design token and cannot be renamed.`
+    );
+  }
+
+  if (cssVariableManager.getAll().has(newName)) {
+    return new ResponseError(
+      ErrorCodes.InvalidParams,
+      `CSS variable '${newName}' already exists.`
+    );
+  }
+
+  const locations: Location[] = [
+    // the definition spans the whole declaration, only its name is replaced
+    ...definitions.map(({ definition: { uri, range: { start } } }) => ({
+      uri,
+      range: Range.create(start, { line: start.line, character: start.character + name.length }),
+    })),
+    ...cssVariableManager.getUsages(name),
+    ...(await findWorkspaceReferences(options)),
+  ];
+
+  const changes: WorkspaceEdit['changes'] = {};
+  const renamed: Set<string> = new Set();
+  locations.forEach(({ uri, range }) => {
+    const key = JSON.stringify([uri, range.start]);
+    if (renamed.has(key)) {
+      return;
+    }
+    renamed.add(key);
+
+    if (!changes[uri]) {
+      changes[uri] = [];
+    }
+    changes[uri].push(TextEdit.replace(range, newName));
+  });
+
+  return { changes };
+}
@@ -0,0 +1,245 @@
+import * as fs from 'fs';
+import path from 'path';
+
+const STYLE_EXTENSIONS = ['.css', '.scss', '.sass', '.less'];
+
+// conditions of package.json `exports` that can point to a stylesheet
+const EXPORT_CONDITIONS = ['sass', 'style', 'import', 'require', 'default'];
+
+// package.json fields used by Sass, PostCSS and Less packages
+const ENTRY_FIELDS = ['sass', 'style', 'main'];
+
+const isFile = (filePath: string) => {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+};
+
+const isDirectory = (filePath: string) => {
+  try {
+    return fs.statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Returns the URLs of an `@import`, `@use` or `@forward` rule
+ * Examples:
+ *   "'theme' as t" => ["theme"]
+ *   "url(./reset.css) screen" => ["./reset.css"]
+ *   "(reference) 'a', 'b'" => ["a", "b"]
+ */
+export function getImportSpecifiers(params: string): string[] {
+  const specifiers: string[] = [];
+  const re = /^\s*(?:url\(\s*(["']?)([^"')]*)\1\s*\)|(["'])(.*?)\3)\s*/;
+
+  // skip the options of Less imports, e.g. (reference)
+  let rest = params.replace(/^\s*\([^)]*\)/, '');
+  let match: RegExpMatchArray | null;
+
+  while ((match = rest.match(re)) !== null) {
+    specifiers.push(match[2] ?? match[4]);
+    rest = rest.slice(match[0].length);
+
+    if (!rest.startsWith(',')) {
+      break;
+    }
+    rest = rest.slice(1);
+  }
+
+  return specifiers;
+}
+
+/**
+ * Finds a stylesheet the way Sass does, trying partials, extensions
+ * and index files
+ */
+function resolveFile(basePath: string, extensions: string[]): string | undefined {
+  const dir = path.dirname(basePath);
+  const name = path.basename(basePath);
+  const candidates: string[] = [];
+
+  if (extensions.includes(path.extname(basePath))) {
+    candidates.push(basePath, path.join(dir, `_${name}`));
+  }
+
+  extensions.forEach((extension) => {
+    candidates.push(`${basePath}${extension}`, path.join(dir, `_${name}${extension}`));
+  });
+
+  extensions.forEach((extension) => {
+    candidates.push(
+      path.join(basePath, `index${extension}`),
+      path.join(basePath, `_index${extension}`)
+    );
+  });
+
+  return candidates.find(isFile);
+}
+
+function resolveExportTarget(target: unknown): string | undefined {
+  if (typeof target === 'string') {
+    return target;
+  }
+
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const resolved = resolveExportTarget(item);
+      if (resolved) {
+        return resolved;
+      }
+    }
+  } else if (target && typeof target === 'object') {
+    for (const condition of EXPORT_CONDITIONS) {
+      const resolved = resolveExportTarget((target as Record<string, unknown>)[condition]);
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolves a subpath, e.g. "." or "./style", with the `exports` of a package
+ */
+function resolvePackageExport(exports: unknown, subpath: string): string | undefined {
+  const isSubpathMap =
+    exports &&
+    typeof exports === 'object' &&
+    !Array.isArray(exports) &&
+    Object.keys(exports).every((key) => key.startsWith('.'));
+
+  if (!isSubpathMap) {
+    return subpath === '.' ? resolveExportTarget(exports) : undefined;
+  }
+
+  const subpaths = exports as Record<string, unknown>;
+  if (subpath in subpaths) {
+    return resolveExportTarget(subpaths[subpath]);
+  }
+
+  // patterns, e.g. "./themes/*": "./dist/themes/*.css"
+  for (const [key, target] of Object.entries(subpaths)) {
+    const [prefix, suffix] = key.split('*');
+    if (
+      suffix !== undefined &&
+      subpath.startsWith(prefix) &&
+      subpath.endsWith(suffix) &&
+      subpath.length >= key.length - 1
+    ) {
+      const match = subpath.slice(prefix.length, subpath.length - suffix.length);
+      return resolveExportTarget(target)?.replace(/\*/g, match);
+    }
+  }
+
+  return undefined;
+}
+
+function resolvePackageEntry(
+  packageDir: string,
+  subpath: string,
+  extensions: string[]
+): string | undefined {
+  let packageJson: Record<string, unknown> = {};
+  try {
+    packageJson = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf8'));
+  } catch {
+    // packages without package.json are resolved by their files
+  }
+
+  if (packageJson.exports !== undefined) {
+    const target = resolvePackageExport(packageJson.exports, subpath ? `./${subpath}` : '.');
+    const resolved = target && resolveFile(path.join(packageDir, target), extensions);
+    if (resolved) {
+      return resolved;
+    }
+  }
+
+  if (subpath) {
+    return resolveFile(path.join(packageDir, subpath), extensions);
+  }
+
+  for (const field of ENTRY_FIELDS) {
+    const entry = packageJson[field];
+    if (typeof entry === 'string' && STYLE_EXTENSIONS.includes(path.extname(entry))) {
+      const resolved = resolveFile(path.join(packageDir, entry), extensions);
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+
+  return resolveFile(path.join(packageDir, 'index'), extensions);
+}
+
+/**
+ * Looks for the package in the node_modules folders above the importing file
+ */
+function resolvePackage(
+  specifier: string,
+  fromFile: string,
+  extensions: string[]
+): string | undefined {
+  const parts = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  const packageName = parts.slice(0, nameLength).join('/');
+  const subpath = parts.slice(nameLength).join('/');
+
+  let dir = path.dirname(fromFile);
+  for (;;) {
+    const packageDir = path.join(dir, 'node_modules', packageName);
+    if (isDirectory(packageDir)) {
+      return resolvePackageEntry(packageDir, subpath, extensions);
+    }
+
+    const parentDir = path.dirname(dir);
+    if (parentDir === dir) {
+      return undefined;
+    }
+    dir = parentDir;
+  }
+}
+
+/**
+ * Resolves the URL of an `@import`, `@use` or `@forward` rule to a file,
+ * like Sass and Less do: relative to the importing file first, then as a
+ * package in node_modules. `~` and `pkg:` only look for packages
+ * Examples:
+ *   "./tokens.css" => "/project/src/tokens.css"
+ *   "theme" => "/project/src/_theme.scss"
+ *   "open-props/style" => "/project/node_modules/open-props/open-props.min.css"
+ */
+export function resolveImport(specifier: string, fromFile: string): string | undefined {
+  const fileExtension = path.extname(fromFile);
+
+  // prefer files of the same language as the importing file
+  const extensions = STYLE_EXTENSIONS.includes(fileExtension)
+    ? [fileExtension, ...STYLE_EXTENSIONS.filter((extension) => extension !== fileExtension)]
+    : STYLE_EXTENSIONS;
+
+  const packageSpecifier = specifier.match(/^(?:~|pkg:)(.+)$/);
+  if (packageSpecifier) {
+    return resolvePackage(packageSpecifier[1], fromFile, extensions);
+  }
+
+  // other URLs, e.g. http: or the built-in modules of Sass like sass:math
+  if (/^[a-z][\w+.-]*:/i.test(specifier) || specifier.startsWith('//')) {
+    return undefined;
+  }
+
+  if (path.isAbsolute(specifier)) {
+    return resolveFile(specifier, extensions);
+  }
+
+  const relativeFile = resolveFile(path.resolve(path.dirname(fromFile), specifier), extensions);
+  if (relativeFile || specifier.startsWith('.')) {
+    return relativeFile;
+  }
+
+  return resolvePackage(specifier, fromFile, extensions);
+}
@@ -86,3 +86,45 @@ export function resolveVariableValue(
   // No var() references found, return as-is
   return value;
 }
+
+/**
+ * Lists every step taken while resolving a value, starting with the value
+ * itself and ending with the final computed value
+ * Example:
+ *   "var(--button-bg)" => ["var(--button-bg)", "var(--brand-500)", "#ff0000"]
+ */
+export function getResolutionChain(
+  value: string,
+  variableMap: Map<string, CSSVariable>
+): string[] {
+  const chain = [value];
+  const visited: Set<string> = new Set();
+  let current = value;
+
+  while (chain.length <= MAX_DEPTH) {
+    const parsed = parseVarReference(current);
+    if (!parsed) {
+      break;
+    }
+
+    const referencedVar = variableMap.get(parsed.varName);
+    if (referencedVar && !visited.has(parsed.varName)) {
+      visited.add(parsed.varName);
+      current = referencedVar.symbol.value;
+    } else if (parsed.fallback) {
+      current = parsed.fallback;
+    } else {
+      break;
+    }
+
+    chain.push(current);
+  }
+
+  // values with several var() references are resolved in a single step
+  const resolved = resolveVariableValue(current, variableMap);
+  if (resolved !== current) {
+    chain.push(resolved);
+  }
+
+  return chain;
+}
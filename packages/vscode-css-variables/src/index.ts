@@ -4,9 +4,17 @@
  * ------------------------------------------------------------------------------------------ */
 
 import * as path from 'path';
-import { workspace, ExtensionContext } from 'vscode';
+import {
+  workspace,
+  commands,
+  window,
+  ExtensionContext,
+  ConfigurationTarget,
+  Uri,
+} from 'vscode';
 
 import {
+  Location,
   LanguageClient,
   LanguageClientOptions,
   ServerOptions,
@@ -59,13 +67,9 @@ export function activate(context: ExtensionContext) {
       scheme: 'file',
       language,
     })),
-    synchronize: {
-      fileEvents: [
-        workspace.createFileSystemWatcher('**/*.css'),
-        workspace.createFileSystemWatcher('**/*.scss'),
-        workspace.createFileSystemWatcher('**/*.sass'),
-        workspace.createFileSystemWatcher('**/*.less'),
-      ],
+    initializationOptions: {
+      // the server caches the index there to start faster next time
+      storagePath: context.storageUri?.fsPath,
     },
   };
 
@@ -77,10 +81,96 @@ export function activate(context: ExtensionContext) {
     clientOptions
   );
 
+  context.subscriptions.push(
+    commands.registerCommand('cssVariables.selectTheme', selectTheme),
+    commands.registerCommand('cssVariables.showUnusedVariables', showUnusedVariables),
+    commands.registerCommand('cssVariables.generateTypeDeclarations', generateTypeDeclarations)
+  );
+
   // Start the client. This will also launch the server
   client.start();
 }
 
+async function selectTheme() {
+  const config = workspace.getConfiguration('cssVariables');
+  const activeTheme = config.get<string>('activeTheme', '');
+  const themes = await client.sendRequest<string[]>('cssVariables/themes');
+
+  const items = [
+    { label: ':root', description: 'Default definitions', theme: '' },
+    ...themes
+      .filter((theme) => theme !== ':root')
+      .map((theme) => ({ label: theme, description: '', theme })),
+  ].map((item) => ({
+    ...item,
+    description: item.theme === activeTheme ? 'Active' : item.description,
+  }));
+
+  const picked = await window.showQuickPick(items, {
+    placeHolder: 'Select the selector used to resolve CSS variables',
+  });
+
+  if (picked) {
+    await config.update('activeTheme', picked.theme, ConfigurationTarget.Workspace);
+  }
+}
+
+interface UnusedVariable {
+  name: string;
+  value: string;
+  location: Location;
+}
+
+async function showUnusedVariables() {
+  const unusedVariables = await client.sendRequest<UnusedVariable[]>(
+    'cssVariables/unusedVariables'
+  );
+
+  if (unusedVariables.length === 0) {
+    window.showInformationMessage('All CSS variables are in use.');
+    return;
+  }
+
+  const items = unusedVariables.map((variable) => {
+    const uri = Uri.parse(variable.location.uri);
+    const line = variable.location.range.start.line + 1;
+
+    return {
+      label: variable.name,
+      description: variable.value,
+      detail: `${workspace.asRelativePath(uri)}:${line}`,
+      variable,
+    };
+  });
+
+  const picked = await window.showQuickPick(items, {
+    placeHolder: `${unusedVariables.length} unused CSS variables`,
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+
+  if (picked) {
+    const { location } = picked.variable;
+    await window.showTextDocument(Uri.parse(location.uri), {
+      selection: client.protocol2CodeConverter.asRange(location.range),
+    });
+  }
+}
+
+async function generateTypeDeclarations() {
+  const outputPaths = await client.sendRequest<string[]>(
+    'cssVariables/generateTypeDeclarations'
+  );
+
+  if (outputPaths.length === 0) {
+    window.showWarningMessage('Open a folder to generate TypeScript declarations.');
+    return;
+  }
+
+  const files = outputPaths.map((outputPath) => workspace.asRelativePath(outputPath));
+  window.showInformationMessage(`TypeScript declarations written to ${files.join(', ')}.`);
+}
+
 export function deactivate(): Thenable<void> | undefined {
   if (!client) {
     return undefined;
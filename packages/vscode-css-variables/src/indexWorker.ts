@@ -0,0 +1 @@
+import 'css-variables-language-server/src/indexWorker';
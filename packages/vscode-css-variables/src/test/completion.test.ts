@@ -112,6 +112,48 @@ suite('Should do completion', () => {
   });
 });
 
+suite('Should complete preprocessor variables', () => {
+  test('Completes Sass variables when $ is typed', async () => {
+    await testCompletion(getDocUri('test.scss'), 'color: $^', {
+      items: [
+        {
+          label: '$brand',
+          kind: vscode.CompletionItemKind.Color,
+        },
+        {
+          label: '$gap',
+          kind: vscode.CompletionItemKind.Variable,
+        },
+      ],
+      notItems: [
+        {
+          label: '--chakra-ring-color',
+        },
+      ],
+    }, '$');
+  });
+
+  test('Completes Less variables when @ is typed', async () => {
+    await testCompletion(getDocUri('test.less'), 'color: @^', {
+      items: [
+        {
+          label: '@brand',
+          kind: vscode.CompletionItemKind.Color,
+        },
+        {
+          label: '@gap',
+          kind: vscode.CompletionItemKind.Variable,
+        },
+      ],
+      notItems: [
+        {
+          label: '$brand',
+        },
+      ],
+    }, '@');
+  });
+});
+
 interface Expectation {
   items: Array<{ label: string; kind?: vscode.CompletionItemKind }>;
   notItems?: Array<{ label: string }>;
@@ -121,6 +163,7 @@ async function testCompletion(
   docUri: vscode.Uri,
   searchText: string,
   expectedCompletionList: vscode.CompletionList & Expectation,
+  triggerCharacter?: string,
 ) {
   await activate(docUri);
 
@@ -132,6 +175,7 @@ async function testCompletion(
     'vscode.executeCompletionItemProvider',
     docUri,
     toPosition,
+    triggerCharacter,
   );
 
   expectedCompletionList.items.forEach((expectedItem) => {
@@ -1,7 +1,8 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts', 'src/server.ts'],
+  // the index worker is loaded by the server from the same folder
+  entry: ['src/index.ts', 'src/server.ts', 'src/indexWorker.ts'],
   format: ['cjs'],
   external: ['vscode'],
   // Bundle all dependencies for VS Code extension
@@ -21,6 +22,7 @@ export default defineConfig({
     'axios',
     'culori',
     'fast-glob',
+    'jsonc-parser',
     'less',
     'line-column',
     'postcss',